@@ -0,0 +1,155 @@
+import axios from 'axios';
+import { backendSettings } from './backend';
+
+// Bearer token authentication against the PDF API
+export interface AuthUser {
+  email: string;
+  name?: string;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  user: AuthUser;
+  /** Backend profile that issued the tokens; they are never sent to another backend */
+  profileId: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  accessToken: string;
+  refreshToken?: string;
+  user: AuthUser;
+}
+
+const SESSION_KEY = 'pdf-editor:auth';
+
+/** Builds can require signing in up front; otherwise login is asked for on the first 401 */
+export const AUTH_REQUIRED = import.meta.env.VITE_AUTH_REQUIRED === 'true';
+
+const readSession = (): AuthSession | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+let session = readSession();
+let loginRequired = AUTH_REQUIRED;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// The session in use changes with the active backend
+backendSettings.subscribe(notify);
+
+// Auth endpoints are called without the api client's interceptors so a failing refresh cannot loop
+const authRequest = async <T>(path: string, body?: unknown, accessToken?: string): Promise<T> => {
+  const response = await axios.post(path, body, {
+    baseURL: backendSettings.getActiveProfile().baseUrl,
+    timeout: 30000,
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+  });
+  return response.data;
+};
+
+export const authSession = {
+  /**
+   * Session for the active backend profile; null when signed out or signed in to a different backend
+   */
+  get: (): AuthSession | null =>
+    session?.profileId === backendSettings.getActiveProfile().id ? session : null,
+
+  set: (next: AuthSession | null) => {
+    session = next;
+    if (next) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    notify();
+  },
+
+  /** Whether the app should send the user to the login screen */
+  isLoginRequired: () => loginRequired && !authSession.get(),
+
+  /**
+   * Called when the server rejects a request and no refresh is possible
+   */
+  expire: () => {
+    loginRequired = true;
+    authSession.set(null);
+  },
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+let refreshing: Promise<string | null> | null = null;
+
+export const authApi = {
+  /**
+   * Sign in and store the returned tokens
+   * @param credentials - Email and password
+   * @returns Promise with the signed-in user
+   */
+  login: async (credentials: LoginRequest): Promise<AuthUser> => {
+    const result = await authRequest<LoginResponse>('/auth/login', credentials);
+    authSession.set({
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+      user: result.user,
+      profileId: backendSettings.getActiveProfile().id,
+    });
+    return result.user;
+  },
+
+  /**
+   * Exchange the refresh token for a new access token. Concurrent callers share one request.
+   * @returns Promise with the new access token, or null when the session cannot be refreshed
+   */
+  refresh: (): Promise<string | null> => {
+    const current = authSession.get();
+    if (!current?.refreshToken) return Promise.resolve(null);
+
+    refreshing ??= authRequest<LoginResponse>('/auth/refresh', { refreshToken: current.refreshToken })
+      .then(result => {
+        authSession.set({
+          accessToken: result.accessToken,
+          refreshToken: result.refreshToken ?? current.refreshToken,
+          user: result.user ?? current.user,
+          profileId: current.profileId,
+        });
+        return result.accessToken;
+      })
+      .catch(error => {
+        console.error('Token refresh error:', error);
+        return null;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+    return refreshing;
+  },
+
+  /**
+   * Revoke the session on the server (best effort) and forget the tokens
+   */
+  logout: async (): Promise<void> => {
+    const current = authSession.get();
+    authSession.expire();
+    if (current) {
+      await authRequest('/auth/logout', { refreshToken: current.refreshToken }, current.accessToken)
+        .catch(error => console.error('Logout error:', error));
+    }
+  },
+};
@@ -0,0 +1,100 @@
+// Backend profiles: which PDF API the client talks to
+export interface BackendProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  /** Profiles from the build environment cannot be edited or removed */
+  builtIn?: boolean;
+}
+
+const PROFILES_KEY = 'pdf-editor:backend-profiles';
+const ACTIVE_KEY = 'pdf-editor:active-backend';
+
+const FALLBACK_BASE_URL = 'https://localhost:44322/api/PDF';
+
+// Built-in profiles come from Vite env; only the ones configured for this build are offered
+const builtInProfiles: BackendProfile[] = [
+  { id: 'local', name: 'Local', baseUrl: import.meta.env.VITE_API_BASE_URL || FALLBACK_BASE_URL, builtIn: true },
+  { id: 'staging', name: 'Staging', baseUrl: import.meta.env.VITE_API_STAGING_URL, builtIn: true },
+  { id: 'production', name: 'Production', baseUrl: import.meta.env.VITE_API_PRODUCTION_URL, builtIn: true },
+].filter(profile => profile.baseUrl);
+
+const readCustomProfiles = (): BackendProfile[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+let customProfiles = readCustomProfiles();
+let activeId = localStorage.getItem(ACTIVE_KEY) || builtInProfiles[0].id;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const persist = () => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(customProfiles));
+  localStorage.setItem(ACTIVE_KEY, activeId);
+};
+
+/**
+ * Normalize a user-entered API URL, rejecting anything that is not http(s)
+ * @throws Error when the URL is invalid
+ */
+export const normalizeBaseUrl = (value: string): string => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error('Enter a full URL, e.g. https://api.example.com/api/PDF');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('The API URL must start with http:// or https://');
+  }
+  return url.toString().replace(/\/+$/, '');
+};
+
+export const backendSettings = {
+  getProfiles: (): BackendProfile[] => [...builtInProfiles, ...customProfiles],
+
+  /**
+   * The profile requests go to; falls back to the first built-in one if the stored id is gone
+   */
+  getActiveProfile: (): BackendProfile =>
+    backendSettings.getProfiles().find(profile => profile.id === activeId) ?? builtInProfiles[0],
+
+  setActiveProfile: (id: string) => {
+    activeId = id;
+    persist();
+    notify();
+  },
+
+  /**
+   * Add or update a custom profile
+   */
+  saveProfile: (profile: Omit<BackendProfile, 'builtIn'>) => {
+    const saved = { ...profile, baseUrl: normalizeBaseUrl(profile.baseUrl) };
+    customProfiles = customProfiles.some(existing => existing.id === saved.id)
+      ? customProfiles.map(existing => (existing.id === saved.id ? saved : existing))
+      : [...customProfiles, saved];
+    persist();
+    notify();
+  },
+
+  removeProfile: (id: string) => {
+    customProfiles = customProfiles.filter(profile => profile.id !== id);
+    if (activeId === id) {
+      activeId = builtInProfiles[0].id;
+    }
+    persist();
+    notify();
+  },
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
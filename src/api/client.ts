@@ -1,21 +1,56 @@
-import axios from "axios";
+import axios, { AxiosError, type InternalAxiosRequestConfig } from "axios";
+import { backendSettings } from "./backend";
+import { authApi, authSession } from "./auth";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Retry transient failures with backoff; only set this on idempotent calls */
+    retry?: boolean;
+  }
+}
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
+// Gateway and throttling responses that usually succeed when tried again
+const TRANSIENT_STATUSES = new Set([408, 429, 502, 503, 504]);
 
 export const api = axios.create({
-  baseURL: "https://localhost:44322/api/PDF",
+  baseURL: backendSettings.getActiveProfile().baseUrl,
   timeout: 30000, // 30 seconds timeout
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Request interceptor for adding auth tokens if needed
+// Follow backend profile switches made in the settings screen
+backendSettings.subscribe(() => {
+  api.defaults.baseURL = backendSettings.getActiveProfile().baseUrl;
+});
+
+const isActiveBackendUrl = (url: string) => {
+  const baseUrl = backendSettings.getActiveProfile().baseUrl.replace(/\/+$/, '');
+  return url === baseUrl || url.startsWith(`${baseUrl}/`) || url.startsWith(`${baseUrl}?`);
+};
+
+// Tokens belong to the active backend; requests given another baseURL (e.g. health checks) go without them
+const isActiveBackendRequest = (config: InternalAxiosRequestConfig) => isActiveBackendUrl(api.getUri(config));
+
+/**
+ * Auth header for fetches made outside the api client, e.g. by pdfjs; empty unless the URL is on the active backend
+ */
+export const getAuthHeaders = (url: string): Record<string, string> => {
+  const token = authSession.get()?.accessToken;
+  return token && isActiveBackendUrl(url) ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Request interceptor for adding auth tokens
 api.interceptors.request.use(
   (config) => {
-    // Add any authentication headers here if needed
-    // const token = localStorage.getItem('authToken');
-    // if (token) {
-    //   config.headers.Authorization = `Bearer ${token}`;
-    // }
+    const token = authSession.get()?.accessToken;
+    if (token && isActiveBackendRequest(config)) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
     return config;
   },
   (error) => {
@@ -28,11 +63,64 @@ api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
+  async (error) => {
     // Handle common error cases
     if (error.code === 'ECONNABORTED') {
       console.error('Request timeout');
     }
+
+    // Refresh an expired access token once and replay the original request
+    const request = error.config;
+    if (error.response?.status === 401 && request && !request._retried && isActiveBackendRequest(request)) {
+      request._retried = true;
+      const token = await authApi.refresh();
+      if (token) {
+        return api(request);
+      }
+      authSession.expire();
+    }
     return Promise.reject(error);
   }
-);
\ No newline at end of file
+);
+
+const isTransientFailure = (error: AxiosError) =>
+  error.response ? TRANSIENT_STATUSES.has(error.response.status) : !!error.request;
+
+// Exponential backoff with jitter; a Retry-After header from the server takes precedence
+const getRetryDelay = (error: AxiosError, attempt: number) => {
+  const retryAfter = Number(error.response?.headers?.['retry-after']);
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, RETRY_MAX_DELAY);
+  }
+  const delay = Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const waitForRetry = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    }, { once: true });
+  });
+
+// Retry interceptor for idempotent calls hitting timeouts, dropped connections or overloaded gateways
+api.interceptors.response.use(
+  undefined,
+  async (error) => {
+    const request = error.config;
+    if (!request?.retry || axios.isCancel(error) || !isTransientFailure(error)) {
+      return Promise.reject(error);
+    }
+    const attempt: number = request._retryCount ?? 0;
+    // Retrying cannot help while the browser knows it is offline
+    if (attempt >= MAX_RETRIES || !navigator.onLine) {
+      return Promise.reject(error);
+    }
+
+    request._retryCount = attempt + 1;
+    await waitForRetry(getRetryDelay(error, attempt), request.signal);
+    return api(request);
+  }
+);
@@ -0,0 +1,181 @@
+import { pdfApi, handleApiError, isNetworkError, type PDFEditRequest, type PDFMetadata, type PDFPageOperation } from './pdf';
+
+// Saves made while disconnected, replayed in order once the connection returns
+export type SaveStep = 'metadata' | 'edit' | 'organize';
+
+/**
+ * How a submitted save was handled: sent, queued because the server cannot be reached,
+ * or queued behind earlier saves that are still being replayed
+ */
+export type SubmitResult = 'saved' | 'queued' | 'waiting';
+
+export interface PendingSave {
+  fileId: string;
+  fileName: string;
+  metadata?: PDFMetadata;
+  edits: PDFEditRequest['edits'];
+  pageOperations: PDFPageOperation[];
+}
+
+export interface QueuedSave extends PendingSave {
+  id: string;
+  queuedAt: string;
+  /** Steps the server already applied before the connection dropped */
+  completed: SaveStep[];
+  /** Set when the server rejected the save; the queue waits until it is retried or discarded */
+  error?: string;
+}
+
+const QUEUE_KEY = 'pdf-editor:offline-queue';
+
+const readQueue = (): QueuedSave[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+let entries = readQueue();
+let syncing: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+const replayListeners = new Set<(save: QueuedSave) => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const update = (next: QueuedSave[]) => {
+  entries = next;
+  if (entries.length > 0) {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(entries));
+  } else {
+    localStorage.removeItem(QUEUE_KEY);
+  }
+  notify();
+};
+
+const updateEntry = (id: string, changes: Partial<QueuedSave>) =>
+  update(entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+// Metadata first, then element edits, then page operations so edits still target the original page numbers
+const runSave = async (save: QueuedSave, onStep: (step: SaveStep) => void) => {
+  const steps: [SaveStep, boolean, () => Promise<unknown>][] = [
+    ['metadata', !!save.metadata, () => pdfApi.updateMetadata(save.fileId, save.metadata)],
+    ['edit', save.edits.length > 0, () => pdfApi.edit(save.fileId, save.edits)],
+    ['organize', save.pageOperations.length > 0, () => pdfApi.organizePages(save.fileId, save.pageOperations)],
+  ];
+  for (const [step, needed, send] of steps) {
+    if (!needed || save.completed.includes(step)) continue;
+    await send();
+    onStep(step);
+  }
+};
+
+export const offlineQueue = {
+  getEntries: (): QueuedSave[] => entries,
+
+  isSyncing: () => syncing !== null,
+
+  /**
+   * Send a save now, or queue it when offline or when earlier saves are still waiting
+   * @param save - The edits to save for one file
+   * @returns Promise resolving to 'saved', or to 'queued' or 'waiting' when it will be replayed later
+   * @throws The API error when the server rejects the save
+   */
+  submit: async (save: PendingSave): Promise<SubmitResult> => {
+    const queued: QueuedSave = {
+      ...save,
+      id: `save-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      queuedAt: new Date().toISOString(),
+      completed: [],
+    };
+
+    // Queued saves go first to keep the server's edit order
+    if (!navigator.onLine || entries.length > 0) {
+      const result = navigator.onLine ? 'waiting' : 'queued';
+      update([...entries, queued]);
+      offlineQueue.flush();
+      return result;
+    }
+
+    try {
+      await runSave(queued, step => queued.completed.push(step));
+      return 'saved';
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      update([...entries, queued]);
+      return 'queued';
+    }
+  },
+
+  /**
+   * Replay queued saves in order. Stops at the first one that fails so later saves never overtake it.
+   */
+  flush: (): Promise<void> => {
+    if (!navigator.onLine) return Promise.resolve();
+
+    syncing ??= (async () => {
+      while (entries.length > 0) {
+        const [next] = entries;
+        if (next.error) return;
+        try {
+          await runSave(next, step => updateEntry(next.id, {
+            completed: [...(entries.find(entry => entry.id === next.id)?.completed ?? []), step],
+          }));
+          update(entries.filter(entry => entry.id !== next.id));
+          replayListeners.forEach(listener => listener(next));
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            updateEntry(next.id, { error: handleApiError(error).message });
+          }
+          console.error('Offline queue replay error:', error);
+          return;
+        }
+      }
+    })().finally(() => {
+      syncing = null;
+      notify();
+    });
+    notify();
+    return syncing;
+  },
+
+  /**
+   * Clear a rejected save's error and try the queue again
+   */
+  retry: (id: string) => {
+    updateEntry(id, { error: undefined });
+    return offlineQueue.flush();
+  },
+
+  discard: (id: string) => update(entries.filter(entry => entry.id !== id)),
+
+  /** Forget every queued save, e.g. when signing out */
+  clear: () => update([]),
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Page operations of a file that are queued but not yet applied by the server
+   */
+  getQueuedPageOperations: (fileId: string): PDFPageOperation[] =>
+    entries
+      .filter(entry => entry.fileId === fileId && !entry.completed.includes('organize'))
+      .flatMap(entry => entry.pageOperations),
+
+  /** Called with the save each time a queued save reaches the server */
+  onReplayed: (listener: (save: QueuedSave) => void) => {
+    replayListeners.add(listener);
+    return () => {
+      replayListeners.delete(listener);
+    };
+  },
+};
+
+window.addEventListener('online', () => {
+  offlineQueue.flush();
+});
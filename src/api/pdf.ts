@@ -1,66 +1,186 @@
+import axios, { AxiosProgressEvent, AxiosResponse } from 'axios';
+import { z } from 'zod';
 import { api } from './client';
+import {
+  blobResponseSchema,
+  deleteResponseSchema,
+  editResponseSchema,
+  exportJobSchema,
+  exportJobStatusSchema,
+  exportResponseSchema,
+  metadataResponseSchema,
+  metadataSchema,
+  outlineItemSchema,
+  outlineResponseSchema,
+  previewResponseSchema,
+  uploadResponseSchema,
+} from './schemas';
 
-// Types for PDF operations
-export interface PDFUploadResponse {
-  fileId: string;
-  fileName: string;
-  fileSize: number;
-  uploadDate: string;
+// Types for PDF operations; response types follow the schemas they are validated against
+export type PDFUploadResponse = z.infer<typeof uploadResponseSchema>;
+
+export type PDFPreviewResponse = z.infer<typeof previewResponseSchema>;
+
+export interface PDFElementEdit {
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  action: 'add_text' | 'add_image' | 'add_annotation' | 'remove_element';
 }
 
-export interface PDFPreviewResponse {
-  fileId: string;
-  fileName: string;
-  previewUrl: string;
-  pageCount: number;
+export interface PDFReplaceTextEdit {
+  pageNumber: number;
+  original: string;
+  replacement: string;
+  matchCase: boolean;
+  wholeWord: boolean;
+  allOccurrences: boolean;
+  action: 'replace_text';
+}
+
+// Page operations are applied in order; page numbers are 1-based positions
+// in the layout produced by the previous operation
+export interface PDFReorderPagesEdit {
+  /** Current page positions in their new order */
+  pageOrder: number[];
+  action: 'reorder_pages';
+}
+
+export interface PDFDeletePagesEdit {
+  pages: number[];
+  action: 'delete_pages';
+}
+
+export interface PDFDuplicatePagesEdit {
+  /** Each page is duplicated directly after itself */
+  pages: number[];
+  action: 'duplicate_pages';
+}
+
+export interface PDFRotatePagesEdit {
+  pages: number[];
+  /** Clockwise rotation added to the page's current rotation */
+  angle: 90 | 180 | 270;
+  action: 'rotate_pages';
+}
+
+export interface PDFInsertBlankPagesEdit {
+  /** Position after which to insert; 0 inserts at the start */
+  afterPage: number;
+  count: number;
+  action: 'insert_blank_pages';
 }
 
+export type PDFPageOperation =
+  | PDFReorderPagesEdit
+  | PDFDeletePagesEdit
+  | PDFDuplicatePagesEdit
+  | PDFRotatePagesEdit
+  | PDFInsertBlankPagesEdit;
+
 export interface PDFEditRequest {
   fileId: string;
-  edits: {
-    pageNumber: number;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    text?: string;
-    action: 'add_text' | 'add_image' | 'add_annotation' | 'remove_element';
-  }[];
+  edits: (PDFElementEdit | PDFReplaceTextEdit | PDFPageOperation)[];
 }
 
-export interface PDFEditResponse {
+export interface PDFMergeSource {
   fileId: string;
-  editId: string;
-  success: boolean;
-  message: string;
+  /** Pages to take from this file, in order; all pages when omitted */
+  pages?: number[];
 }
 
+export interface PDFExtractPage {
+  /** Page of the source file, or null for a blank page */
+  sourcePage: number | null;
+  rotation: number;
+}
+
+export type PDFEditResponse = z.infer<typeof editResponseSchema>;
+
+export type PDFMetadata = z.infer<typeof metadataSchema>;
+
+export type PDFMetadataResponse = z.infer<typeof metadataResponseSchema>;
+
+export type PDFOutlineItem = z.infer<typeof outlineItemSchema>;
+
+export type PDFOutlineResponse = z.infer<typeof outlineResponseSchema>;
+
 export interface PDFExportRequest {
   fileId: string;
   format: 'pdf' | 'png' | 'jpg' | 'docx';
   quality?: 'low' | 'medium' | 'high';
+  /** Resolution of rendered pages for image formats */
+  dpi?: number;
   pages?: number[];
+  /** Split into one file per group of pages; the response is then a ZIP archive */
+  parts?: number[][];
+  metadata?: PDFMetadata;
 }
 
-export interface PDFExportResponse {
-  fileId: string;
-  exportId: string;
-  downloadUrl: string;
-  format: string;
-  fileSize: number;
-  file?: any; 
-  fileContent?: any; 
-  data?: any; 
+export type PDFExportResponse = z.infer<typeof exportResponseSchema>;
+
+export type PDFExportJobStatus = z.infer<typeof exportJobStatusSchema>;
+
+export type PDFExportJob = z.infer<typeof exportJobSchema>;
+
+export type PDFDeleteResponse = z.infer<typeof deleteResponseSchema>;
+
+export interface TransferProgress {
+  loaded: number;
+  /** Unknown when the server does not send a Content-Length */
+  total?: number;
+  percent?: number;
+  /** Estimated seconds remaining */
+  estimated?: number;
+}
+
+export interface TransferOptions {
+  onProgress?: (progress: TransferProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown when a response does not match its schema, i.e. the backend contract has drifted
+ */
+export class ApiContractError extends Error {
+  constructor(
+    /** Method and path of the request, e.g. "GET /preview/abc" */
+    public readonly endpoint: string,
+    public readonly issues: z.ZodIssue[],
+  ) {
+    super(`Unexpected response from ${endpoint}`);
+    this.name = 'ApiContractError';
+  }
 }
 
+const parseResponse = <T>(schema: z.ZodType<T>, response: AxiosResponse): T => {
+  const result = schema.safeParse(response.data);
+  if (!result.success) {
+    const { method = 'get', url = '' } = response.config;
+    throw new ApiContractError(`${method.toUpperCase()} ${url}`, result.error.issues);
+  }
+  return result.data;
+};
+
+const toTransferProgress = (event: AxiosProgressEvent): TransferProgress => ({
+  loaded: event.loaded,
+  total: event.total,
+  percent: event.total ? Math.round((event.loaded / event.total) * 100) : undefined,
+  estimated: event.estimated,
+});
+
 // PDF API functions
 export const pdfApi = {
   /**
    * Upload a PDF file
    * @param file - The PDF file to upload
+   * @param options - Optional progress callback and abort signal
    * @returns Promise with upload response
    */
-  upload: async (file: File): Promise<PDFUploadResponse> => {
+  upload: async (file: File, options: TransferOptions = {}): Promise<PDFUploadResponse> => {
     const formData = new FormData();
     formData.append('file', file);
     
@@ -68,9 +188,11 @@ export const pdfApi = {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      onUploadProgress: (event) => options.onProgress?.(toTransferProgress(event)),
+      signal: options.signal,
     });
     
-    return response.data;
+    return parseResponse(uploadResponseSchema, response);
   },
 
   /**
@@ -79,8 +201,8 @@ export const pdfApi = {
    * @returns Promise with preview response
    */
   preview: async (fileId: string): Promise<PDFPreviewResponse> => {
-    const response = await api.get(`/preview/${fileId}`);
-    return response.data;
+    const response = await api.get(`/preview/${fileId}`, { retry: true });
+    return parseResponse(previewResponseSchema, response);
   },
 
   /**
@@ -91,7 +213,81 @@ export const pdfApi = {
    */
   edit: async (fileId: string, edits: PDFEditRequest['edits']): Promise<PDFEditResponse> => {
     const response = await api.post(`/edit/${fileId}`, { edits });
-    return response.data;
+    return parseResponse(editResponseSchema, response);
+  },
+
+  /**
+   * Apply page organize operations (reorder, delete, duplicate, rotate, insert blank)
+   * @param fileId - The ID of the file to organize
+   * @param operations - Page operations, applied in order
+   * @returns Promise with edit response
+   */
+  organizePages: async (fileId: string, operations: PDFPageOperation[]): Promise<PDFEditResponse> => {
+    const response = await api.post(`/organize/${fileId}`, { operations });
+    return parseResponse(editResponseSchema, response);
+  },
+
+  /**
+   * Extract pages into a new PDF file on the server
+   * @param fileId - The ID of the source file
+   * @param pages - Pages to copy into the new file, in order
+   * @returns Promise with the upload response of the new file
+   */
+  extractPages: async (fileId: string, pages: PDFExtractPage[]): Promise<PDFUploadResponse> => {
+    const response = await api.post(`/extract/${fileId}`, { pages });
+    return parseResponse(uploadResponseSchema, response);
+  },
+
+  /**
+   * Merge several uploaded files into a new PDF file on the server
+   * @param files - Source files in the order they should appear
+   * @returns Promise with the upload response of the merged file
+   */
+  merge: async (files: PDFMergeSource[]): Promise<PDFUploadResponse> => {
+    const response = await api.post('/merge', { files });
+    return parseResponse(uploadResponseSchema, response);
+  },
+
+  /**
+   * Download the current bytes of a stored PDF file
+   * @param fileId - The ID of the file
+   * @returns Promise with the PDF as a Blob
+   */
+  getFile: async (fileId: string): Promise<Blob> => {
+    const response = await api.get(`/file/${fileId}`, { responseType: 'blob', retry: true });
+    return parseResponse(blobResponseSchema, response);
+  },
+
+  /**
+   * Get document metadata (Info dictionary)
+   * @param fileId - The ID of the file
+   * @returns Promise with the current metadata
+   */
+  getMetadata: async (fileId: string): Promise<PDFMetadataResponse> => {
+    const response = await api.get(`/metadata/${fileId}`, { retry: true });
+    return parseResponse(metadataResponseSchema, response);
+  },
+
+  /**
+   * Update document metadata
+   * @param fileId - The ID of the file to update
+   * @param metadata - Metadata fields to write
+   * @returns Promise with the updated metadata
+   */
+  updateMetadata: async (fileId: string, metadata: PDFMetadata): Promise<PDFMetadataResponse> => {
+    const response = await api.put(`/metadata/${fileId}`, metadata);
+    return parseResponse(metadataResponseSchema, response);
+  },
+
+  /**
+   * Replace the document outline (bookmarks)
+   * @param fileId - The ID of the file to update
+   * @param outline - Complete bookmark tree; an empty list removes the outline
+   * @returns Promise with the outline as written
+   */
+  updateOutline: async (fileId: string, outline: PDFOutlineItem[]): Promise<PDFOutlineResponse> => {
+    const response = await api.put(`/outline/${fileId}`, { outline });
+    return parseResponse(outlineResponseSchema, response);
   },
 
   /**
@@ -101,8 +297,74 @@ export const pdfApi = {
    * @returns Promise with export response
    */
   export: async (fileId: string, exportOptions: Omit<PDFExportRequest, 'fileId'>): Promise<PDFExportResponse> => {
-    const response = await api.post(`/export/${fileId}`, exportOptions);
-    return response.data;
+    const response = await api.post(`/export/${fileId}`, exportOptions, { retry: true });
+    return parseResponse(exportResponseSchema, response);
+  },
+
+  /**
+   * Export a PDF and download the resulting file directly
+   * @param fileId - The ID of the file to export
+   * @param exportOptions - Export configuration
+   * @param options - Optional download progress callback and abort signal
+   * @returns Promise with the exported file (a ZIP archive when `parts` is set)
+   */
+  exportFile: async (
+    fileId: string,
+    exportOptions: Omit<PDFExportRequest, 'fileId'>,
+    options: TransferOptions = {}
+  ): Promise<Blob> => {
+    const response = await api.post(`/export/${fileId}`, exportOptions, {
+      responseType: 'blob',
+      retry: true,
+      onDownloadProgress: (event) => options.onProgress?.(toTransferProgress(event)),
+      signal: options.signal,
+    });
+    return parseResponse(blobResponseSchema, response);
+  },
+
+  /**
+   * Start a background export job for long-running conversions
+   * @param fileId - The ID of the file to export
+   * @param exportOptions - Export configuration
+   * @returns Promise with the queued job
+   */
+  startExportJob: async (fileId: string, exportOptions: Omit<PDFExportRequest, 'fileId'>): Promise<PDFExportJob> => {
+    const response = await api.post(`/export/${fileId}/jobs`, exportOptions);
+    return parseResponse(exportJobSchema, response);
+  },
+
+  /**
+   * Get the current state of a background export job
+   * @param fileId - The ID of the exported file
+   * @param exportId - The ID returned when the job was started
+   * @returns Promise with the job status
+   */
+  getExportJob: async (fileId: string, exportId: string): Promise<PDFExportJob> => {
+    const response = await api.get(`/export/${fileId}/jobs/${exportId}`);
+    return parseResponse(exportJobSchema, response);
+  },
+
+  /**
+   * Download the file produced by a finished export job
+   * @param fileId - The ID of the exported file
+   * @param exportId - The ID of the export job
+   * @returns Promise with the exported file
+   */
+  downloadExport: async (fileId: string, exportId: string): Promise<Blob> => {
+    const response = await api.get(`/download/${fileId}/${exportId}`, { responseType: 'blob', retry: true });
+    return parseResponse(blobResponseSchema, response);
+  },
+
+  /**
+   * Check whether a backend is reachable
+   * @param baseUrl - API URL to check; the active backend when omitted
+   * @returns Promise with the round-trip time in milliseconds
+   */
+  health: async (baseUrl?: string): Promise<{ latency: number }> => {
+    const startedAt = performance.now();
+    // Without the api client's interceptors: no token, and a 401 from a profile being tried does not sign out
+    await axios.get('/health', { baseURL: baseUrl ?? api.defaults.baseURL, timeout: 5000 });
+    return { latency: Math.round(performance.now() - startedAt) };
   },
 
   /**
@@ -110,24 +372,56 @@ export const pdfApi = {
    * @param fileId - The ID of the file to delete
    * @returns Promise with deletion confirmation
    */
-  delete: async (fileId: string): Promise<{ success: boolean; message: string }> => {
-    const response = await api.delete(`/${fileId}`);
-    return response.data;
+  delete: async (fileId: string): Promise<PDFDeleteResponse> => {
+    const response = await api.delete(`/${fileId}`, { retry: true });
+    return parseResponse(deleteResponseSchema, response);
   },
 };
 
+export type ApiErrorKind = 'cancelled' | 'http' | 'network' | 'contract' | 'unknown';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status: number;
+  statusText: string;
+  /** Schema violations ("path: problem") when the response did not match its contract */
+  issues?: string[];
+}
+
+const errorBodySchema = z.object({ message: z.string() });
+
 // Error handling wrapper
-export const handleApiError = (error: any) => {
-  if (error.response) {
+export const handleApiError = (error: unknown): ApiError => {
+  if (axios.isCancel(error)) {
+    return {
+      kind: 'cancelled',
+      message: 'The request was cancelled',
+      status: 0,
+      statusText: 'Cancelled',
+    };
+  } else if (error instanceof ApiContractError) {
+    // Server answered, but not in the shape this client expects
+    return {
+      kind: 'contract',
+      message: 'The server sent an unexpected response. The backend may be running a different version.',
+      status: 0,
+      statusText: 'Invalid Response',
+      issues: error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+    };
+  } else if (axios.isAxiosError(error) && error.response) {
     // Server responded with error status
+    const body = errorBodySchema.safeParse(error.response.data);
     return {
-      message: error.response.data?.message || 'An error occurred',
+      kind: 'http',
+      message: body.success ? body.data.message : 'An error occurred',
       status: error.response.status,
       statusText: error.response.statusText,
     };
-  } else if (error.request) {
+  } else if (axios.isAxiosError(error) && error.request) {
     // Request was made but no response received
     return {
+      kind: 'network',
       message: 'Network error - please check your connection',
       status: 0,
       statusText: 'No Response',
@@ -135,13 +429,25 @@ export const handleApiError = (error: any) => {
   } else {
     // Something else happened
     return {
-      message: error.message || 'An unexpected error occurred',
+      kind: 'unknown',
+      message: (error instanceof Error && error.message) || 'An unexpected error occurred',
       status: 0,
       statusText: 'Unknown Error',
     };
   }
 };
 
+/**
+ * Whether a request failed because it was aborted through its signal
+ */
+export const isRequestCancelled = (error: unknown): boolean => axios.isCancel(error);
+
+/**
+ * Whether a request never reached the server, e.g. because the connection dropped
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && !axios.isCancel(error) && !!error.request && !error.response;
+
 // Utility functions for common operations
 export const pdfUtils = {
   /**
@@ -178,9 +484,15 @@ export const pdfUtils = {
   },
 
   /**
-   * Generate download URL for exported files
+   * Format a remaining time estimate in seconds
    */
-  getDownloadUrl: (fileId: string, exportId: string): string => {
-    return `${api.defaults.baseURL}/download/${fileId}/${exportId}`;
+  formatDuration: (seconds: number): string => {
+    const total = Math.max(Math.round(seconds), 0);
+    if (total < 60) return `${total}s`;
+
+    const minutes = Math.floor(total / 60);
+    if (minutes < 60) return `${minutes}m ${String(total % 60).padStart(2, '0')}s`;
+
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
   },
 };
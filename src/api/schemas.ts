@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+// Response contracts of the PDF API; responses are validated against these before use
+
+export const uploadResponseSchema = z.object({
+  fileId: z.string().min(1),
+  fileName: z.string(),
+  fileSize: z.number().nonnegative(),
+  uploadDate: z.string(),
+});
+
+export const previewResponseSchema = z.object({
+  fileId: z.string().min(1),
+  fileName: z.string(),
+  previewUrl: z.string(),
+  pageCount: z.number().int().nonnegative(),
+});
+
+export const editResponseSchema = z.object({
+  fileId: z.string().min(1),
+  editId: z.string(),
+  success: z.boolean(),
+  message: z.string(),
+});
+
+export const metadataSchema = z.object({
+  title: z.string().optional(),
+  author: z.string().optional(),
+  subject: z.string().optional(),
+  keywords: z.string().optional(),
+});
+
+export const metadataResponseSchema = metadataSchema.extend({
+  fileId: z.string().min(1),
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+});
+
+export const exportResponseSchema = z.object({
+  fileId: z.string().min(1),
+  exportId: z.string().min(1),
+  downloadUrl: z.string(),
+  format: z.string(),
+  fileSize: z.number().nonnegative(),
+});
+
+export const exportJobStatusSchema = z.enum(['queued', 'running', 'done', 'failed']);
+
+export const exportJobSchema = exportResponseSchema.extend({
+  status: exportJobStatusSchema,
+  /** Conversion progress (0-100) while running, if the server reports it */
+  progress: z.number().min(0).max(100).optional(),
+  error: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export const deleteResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+const outlineEntrySchema = z.object({
+  title: z.string(),
+  /** Page the bookmark points at, or null when its destination is not a page (e.g. a web link) */
+  pageNumber: z.number().int().positive().nullable(),
+});
+
+// Recursive schemas need their type spelled out
+type OutlineItem = z.infer<typeof outlineEntrySchema> & {
+  children?: OutlineItem[];
+};
+
+export const outlineItemSchema: z.ZodType<OutlineItem> = outlineEntrySchema.extend({
+  /** Leaf bookmarks may omit their children */
+  children: z.lazy(() => z.array(outlineItemSchema)).default([]),
+});
+
+export const outlineResponseSchema = z.object({
+  fileId: z.string().min(1),
+  outline: z.array(outlineItemSchema),
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+});
+
+export const blobResponseSchema = z.instanceof(Blob);
@@ -1,104 +1,260 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { FileUpload } from './pdf/FileUpload';
 import { PDFViewer } from './pdf/PDFViewer';
 import { PDFEditPanel } from './pdf/PDFEditPanel';
 import { ExportPanel } from './pdf/ExportPanel';
-import { Upload, Eye, Edit, Download, Trash2, Loader2 } from 'lucide-react';
+import { HistoryPanel } from './pdf/HistoryPanel';
+import { RestoreSessionBanner } from './pdf/RestoreSessionBanner';
+import { WorkspaceSidebar } from './pdf/WorkspaceSidebar';
+import { MergeDialog } from './pdf/MergeDialog';
+import { SplitDialog } from './pdf/SplitDialog';
+import { BackendSettings } from './pdf/BackendSettings';
+import { AccountMenu } from './pdf/AccountMenu';
+import { OfflineQueueStatus } from './pdf/OfflineQueueStatus';
+import { Upload, Eye, Edit, Download, Trash2, Loader2, Scissors } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { pdfApi, handleApiError } from '@/api/pdf';
-
-interface PDFFile {
-  file: File;
-  url: string;
-  fileId?: string;
-  metadata?: {
-    title?: string;
-    author?: string;
-    subject?: string;
-    keywords?: string;
-  };
-  edits?: {
-    textOverlays?: Array<{
-      page: number;
-      x: number;
-      y: number;
-      text: string;
-      fontSize: number;
-      color: string;
-    }>;
-    textReplacements?: Array<{
-      page: number;
-      original: string;
-      replacement: string;
-    }>;
-  };
-}
+import { useWorkspace, createWorkspaceDocument, getDocumentFile } from '@/hooks/use-workspace';
+import { clearRecentExports } from '@/hooks/use-export-jobs';
+import { useDeletePdf, pdfKeys } from '@/hooks/use-pdf-api';
+import { handleApiError, pdfUtils } from '@/api/pdf';
+import { offlineQueue } from '@/api/offlineQueue';
+import { loadPdfDocument, readDocumentMetadata } from '@/lib/pdfjs';
+import type { TextMatch } from '@/lib/textSearch';
+import { sessionStore, StoredSession, MAX_SESSION_SIZE } from '@/lib/sessionStore';
+import { PDFEdits, PDFMetadata, getLayoutPosition, getPageLayout } from './pdf/types';
 
 export const PDFEditor: React.FC = () => {
   const { toast } = useToast();
-  const [pdfFile, setPdfFile] = useState<PDFFile | null>(null);
+  const workspace = useWorkspace();
+  const { documents, activeDocument, history, updateView, markPagesSaved } = workspace;
+  const pdfFile = workspace.activeFile;
+  const activeId = activeDocument?.id ?? null;
+  const currentPage = activeDocument?.currentPage ?? 1;
+  const numPages = activeDocument?.numPages ?? 0;
+  const scale = activeDocument?.scale ?? 1.0;
   const [activeTab, setActiveTab] = useState('upload');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [numPages, setNumPages] = useState(0);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [highlights, setHighlights] = useState<TextMatch[]>([]);
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [isSplitOpen, setIsSplitOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const deletePdf = useDeletePdf();
+  const deletingId = deletePdf.isPending
+    ? documents.find(doc => doc.file.fileId === deletePdf.variables)?.id ?? null
+    : null;
+
+  const setCurrentPage = (page: number) => {
+    if (activeId) updateView(activeId, { currentPage: page });
+  };
+  const setScale = (value: number) => {
+    if (activeId) updateView(activeId, { scale: value });
+  };
+
+  // Offer to restore an in-progress session left over from a previous visit
+  useEffect(() => {
+    sessionStore.load()
+      .then(setPendingSession)
+      .catch(error => console.error('Session load error:', error));
+  }, []);
+
+  // Persist edits and view state of every open document shortly after they change
+  useEffect(() => {
+    if (documents.length === 0) return;
+
+    const timer = setTimeout(() => {
+      sessionStore.saveState({
+        documents: documents.map(document => {
+          const file = getDocumentFile(document);
+          return {
+            id: document.id,
+            fileId: file.fileId,
+            metadata: file.metadata || {},
+            originalMetadata: file.originalMetadata,
+            edits: file.edits || {},
+            savedPageOperations: file.savedPageOperations,
+            currentPage: document.currentPage,
+            scale: document.scale,
+          };
+        }),
+        activeId,
+      }).catch(error => console.error('Session save error:', error));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [documents, activeId]);
+
+  // Page operations replayed from the offline queue are now part of the server file
+  useEffect(
+    () => offlineQueue.onReplayed(save => {
+      const document = documents.find(doc => doc.file.fileId === save.fileId);
+      if (document && save.pageOperations.length > 0) {
+        markPagesSaved(document.id, save.pageOperations);
+      }
+    }),
+    [documents, markPagesSaved]
+  );
 
   const handleFileUpload = (file: File, fileId?: string) => {
     const url = URL.createObjectURL(file);
-    setPdfFile({
-      file,
-      url,
-      fileId,
-      metadata: {},
-      edits: { textOverlays: [], textReplacements: [] }
-    });
+    const document = createWorkspaceDocument({ file, url, fileId });
+    workspace.addDocument(document);
+    setHighlights([]);
+    setPendingSession(null);
+    loadFileMetadata(document.id, url);
+
+    sessionStore.saveFile(document.id, file)
+      .then(stored => {
+        if (!stored) {
+          toast({
+            title: "Session not saved",
+            description: `${file.name} will not be restored after a reload: open documents exceed ${pdfUtils.formatFileSize(MAX_SESSION_SIZE)}.`,
+          });
+        }
+      })
+      .catch(error => console.error('Session save error:', error));
+  };
+
+  const handleRestoreSession = () => {
+    if (!pendingSession) return;
+
+    const restored = pendingSession.documents.map(document =>
+      createWorkspaceDocument(
+        {
+          file: document.file,
+          url: URL.createObjectURL(document.file),
+          fileId: document.fileId,
+          originalMetadata: document.originalMetadata,
+          savedPageOperations: document.savedPageOperations,
+        },
+        { metadata: document.metadata, edits: document.edits },
+        { currentPage: document.currentPage, scale: document.scale },
+        document.id,
+        'Restored session'
+      )
+    );
+    workspace.restore(restored, pendingSession.activeId);
+    setHighlights([]);
     setActiveTab('preview');
+    setPendingSession(null);
   };
 
-  const handleMetadataUpdate = (metadata: PDFFile['metadata']) => {
-    if (pdfFile) {
-      setPdfFile({
-        ...pdfFile,
-        metadata: { ...pdfFile.metadata, ...metadata }
-      });
+  const handleDiscardSession = () => {
+    setPendingSession(null);
+    sessionStore.clear().catch(error => console.error('Session clear error:', error));
+  };
+
+  // Pre-populate metadata from the document's own Info dictionary
+  const loadFileMetadata = async (id: string, url: string) => {
+    try {
+      const pdf = await loadPdfDocument(url);
+      const metadata = await readDocumentMetadata(pdf);
+      pdf.destroy();
+      workspace.setOriginalMetadata(id, metadata);
+    } catch (error) {
+      console.error('Metadata read error:', error);
     }
   };
 
-  const handleEditsUpdate = (edits: PDFFile['edits']) => {
-    if (pdfFile) {
-      setPdfFile({
-        ...pdfFile,
-        edits: { ...pdfFile.edits, ...edits }
-      });
+  const handleSelectDocument = (id: string) => {
+    workspace.setActive(id);
+    setHighlights([]);
+    if (activeTab === 'upload') {
+      setActiveTab('preview');
+    }
+  };
+
+  const handleCloseDocument = (id: string) => {
+    const document = documents.find(doc => doc.id === id);
+    if (!document) return;
+
+    // Clean up the object URL
+    URL.revokeObjectURL(document.file.url);
+    workspace.removeDocument(id);
+    sessionStore.removeFile(id).catch(error => console.error('Session save error:', error));
+
+    if (id === activeId) {
+      setHighlights([]);
+    }
+    if (documents.length === 1) {
+      setActiveTab('upload');
+      sessionStore.clear().catch(error => console.error('Session clear error:', error));
     }
   };
 
-  const handleDeleteFile = async () => {
-    if (!pdfFile?.fileId) {
+  // Signing out leaves nothing of the user's documents behind in this browser
+  const handleSignOut = async () => {
+    documents.forEach(document => URL.revokeObjectURL(document.file.url));
+    workspace.restore([], null);
+    setHighlights([]);
+    setPendingSession(null);
+    setActiveTab('upload');
+    clearRecentExports();
+    offlineQueue.clear();
+    queryClient.removeQueries({ queryKey: pdfKeys.all });
+    await sessionStore.clear().catch(error => console.error('Session clear error:', error));
+  };
+
+  const handleMetadataUpdate = (metadata: PDFMetadata, label = 'Edit metadata', mergeKey?: string) => {
+    history.record(
+      { ...history.present, metadata: { ...history.present.metadata, ...metadata } },
+      label,
+      mergeKey
+    );
+  };
+
+  const handleEditsUpdate = (edits: PDFEdits, label = 'Edit document') => {
+    history.record({ ...history.present, edits: { ...history.present.edits, ...edits } }, label);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) outside of text fields, which keep their native undo
+  const { undo, redo } = history;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!activeId || target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName)) {
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeId, undo, redo]);
+
+  const handlePreviewMatches = (matches: TextMatch[]) => {
+    setHighlights(matches);
+    setCurrentPage(getLayoutPosition(getPageLayout(pdfFile?.edits, numPages), matches[0].page) ?? 1);
+    setActiveTab('preview');
+  };
+
+  const handleDeleteFile = async (id: string) => {
+    const fileId = documents.find(doc => doc.id === id)?.file.fileId;
+    if (!fileId) {
       toast({
         title: "No file to delete",
-        description: "No file is currently loaded.",
+        description: "This document was never uploaded to the server.",
         variant: "destructive",
       });
       return;
     }
 
-    setIsDeleting(true);
     try {
-      await pdfApi.delete(pdfFile.fileId);
-      
-      // Clean up the object URL
-      if (pdfFile.url) {
-        URL.revokeObjectURL(pdfFile.url);
-      }
-      
-      // Reset state
-      setPdfFile(null);
-      setActiveTab('upload');
-      setCurrentPage(1);
-      setNumPages(0);
+      await deletePdf.mutateAsync(fileId);
+      handleCloseDocument(id);
       
       toast({
         title: "File deleted successfully",
@@ -112,118 +268,193 @@ export const PDFEditor: React.FC = () => {
         variant: "destructive",
       });
       console.error('Delete error:', error);
-    } finally {
-      setIsDeleting(false);
     }
   };
 
   return (
-    <div className="min-h-screen bg-gradient-accent">
-      <div className="container mx-auto p-6">
-        <div className="mb-8 text-center">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex-1"></div>
-            <h1 className="text-4xl font-bold text-foreground">
-              PDF Editor Pro
-            </h1>
-            <div className="flex-1 flex justify-end">
-              {pdfFile && (
-                <Button
-                  onClick={handleDeleteFile}
-                  disabled={isDeleting}
-                  variant="outline"
-                  className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
-                >
-                  {isDeleting ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Deleting...
-                    </>
-                  ) : (
-                    <>
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Delete File
-                    </>
-                  )}
-                </Button>
-              )}
+    <SidebarProvider>
+      <WorkspaceSidebar
+        documents={documents}
+        activeId={activeId}
+        deletingId={deletingId}
+        onSelect={handleSelectDocument}
+        onClose={handleCloseDocument}
+        onDelete={handleDeleteFile}
+        onAdd={() => setActiveTab('upload')}
+        onMerge={() => setIsMergeOpen(true)}
+      />
+      <MergeDialog
+        open={isMergeOpen}
+        onOpenChange={setIsMergeOpen}
+        documents={documents}
+        onMerged={(file, fileId) => {
+          handleFileUpload(file, fileId);
+          setActiveTab('preview');
+        }}
+      />
+      {pdfFile && (
+        <SplitDialog
+          key={activeId}
+          open={isSplitOpen}
+          onOpenChange={setIsSplitOpen}
+          file={pdfFile}
+          numPages={numPages}
+        />
+      )}
+      <SidebarInset className="min-h-screen bg-gradient-accent">
+        <div className="container mx-auto p-6">
+          <div className="mb-8 text-center">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex-1 flex justify-start gap-2">
+                <SidebarTrigger />
+                <BackendSettings />
+                <AccountMenu onSignOut={handleSignOut} />
+                <OfflineQueueStatus />
+              </div>
+              <h1 className="text-4xl font-bold text-foreground">
+                PDF Editor Pro
+              </h1>
+              <div className="flex-1 flex justify-end gap-2">
+                {pdfFile && (
+                  <HistoryPanel
+                    entries={history.entries}
+                    index={history.index}
+                    canUndo={history.canUndo}
+                    canRedo={history.canRedo}
+                    onUndo={history.undo}
+                    onRedo={history.redo}
+                    onJump={history.jumpTo}
+                  />
+                )}
+                {pdfFile && (
+                  <Button
+                    onClick={() => setIsSplitOpen(true)}
+                    disabled={numPages === 0}
+                    variant="outline"
+                  >
+                    <Scissors className="w-4 h-4 mr-2" />
+                    Split
+                  </Button>
+                )}
+                {pdfFile && (
+                  <Button
+                    onClick={() => activeId && handleDeleteFile(activeId)}
+                    disabled={deletingId === activeId}
+                    variant="outline"
+                    className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                  >
+                    {deletingId === activeId ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Deleting...
+                      </>
+                    ) : (
+                      <>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete File
+                      </>
+                    )}
+                  </Button>
+                )}
+              </div>
             </div>
+            <p className="text-lg text-muted-foreground">
+              Upload, edit, and export your PDF documents with ease
+            </p>
           </div>
-          <p className="text-lg text-muted-foreground">
-            Upload, edit, and export your PDF documents with ease
-          </p>
-        </div>
 
-        <Card className="shadow-custom-lg border-0 bg-card/80 backdrop-blur-sm">
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4 bg-muted/50">
-              <TabsTrigger 
-                value="upload" 
-                className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-              >
-                <Upload className="w-4 h-4" />
-                Upload
-              </TabsTrigger>
-              <TabsTrigger 
-                value="preview" 
-                disabled={!pdfFile}
-                className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-              >
-                <Eye className="w-4 h-4" />
-                Preview
-              </TabsTrigger>
-              <TabsTrigger 
-                value="edit" 
-                disabled={!pdfFile}
-                className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-              >
-                <Edit className="w-4 h-4" />
-                Edit
-              </TabsTrigger>
-              <TabsTrigger 
-                value="export" 
-                disabled={!pdfFile}
-                className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-              >
-                <Download className="w-4 h-4" />
-                Export
-              </TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="upload" className="mt-6">
-              <FileUpload onFileUpload={handleFileUpload} />
-            </TabsContent>
-
-            <TabsContent value="preview" className="mt-6">
-              {pdfFile && (
-                <PDFViewer
-                  file={pdfFile}
-                  currentPage={currentPage}
-                  numPages={numPages}
-                  onPageChange={setCurrentPage}
-                  onDocumentLoadSuccess={(pdf) => setNumPages(pdf.numPages)}
-                />
-              )}
-            </TabsContent>
-
-            <TabsContent value="edit" className="mt-6">
-              {pdfFile && (
-                <PDFEditPanel
-                  file={pdfFile}
-                  onMetadataUpdate={handleMetadataUpdate}
-                  onEditsUpdate={handleEditsUpdate}
-                />
-              )}
-            </TabsContent>
-
-            <TabsContent value="export" className="mt-6">
-              {pdfFile && (
-                <ExportPanel file={pdfFile} />
-              )}
-            </TabsContent>
-          </Tabs>
-        </Card>
-      </div>
-    </div>
+          <Card className="shadow-custom-lg border-0 bg-card/80 backdrop-blur-sm">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-4 bg-muted/50">
+                <TabsTrigger 
+                  value="upload" 
+                  className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                >
+                  <Upload className="w-4 h-4" />
+                  Upload
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="preview" 
+                  disabled={!pdfFile}
+                  className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                >
+                  <Eye className="w-4 h-4" />
+                  Preview
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="edit" 
+                  disabled={!pdfFile}
+                  className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                >
+                  <Edit className="w-4 h-4" />
+                  Edit
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="export" 
+                  disabled={!pdfFile}
+                  className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="upload" className="mt-6">
+                {pendingSession && (
+                  <RestoreSessionBanner
+                    session={pendingSession}
+                    onRestore={handleRestoreSession}
+                    onDiscard={handleDiscardSession}
+                  />
+                )}
+                <FileUpload
+                onFileUpload={handleFileUpload}
+                onUploadsComplete={(count) => count > 0 && setActiveTab('preview')}
+              />
+              </TabsContent>
+
+              <TabsContent value="preview" className="mt-6">
+                {pdfFile && (
+                  <PDFViewer
+                    key={activeId}
+                    file={pdfFile}
+                    currentPage={currentPage}
+                    numPages={numPages}
+                    scale={scale}
+                    onPageChange={setCurrentPage}
+                    onScaleChange={setScale}
+                    onDocumentLoadSuccess={(pdf) => updateView(activeId, { numPages: pdf.numPages })}
+                    onEditsUpdate={handleEditsUpdate}
+                    highlights={highlights}
+                    onClearHighlights={() => setHighlights([])}
+                    onHighlightsChange={setHighlights}
+                    onOpenDocument={handleFileUpload}
+                  />
+                )}
+              </TabsContent>
+
+              <TabsContent value="edit" className="mt-6">
+                {pdfFile && (
+                  <PDFEditPanel
+                    key={activeId}
+                    file={pdfFile}
+                    onMetadataUpdate={handleMetadataUpdate}
+                    onEditsUpdate={handleEditsUpdate}
+                    onPreviewMatches={handlePreviewMatches}
+                    onPageOperationsSaved={(operations) => markPagesSaved(activeId, operations)}
+                  />
+                )}
+              </TabsContent>
+
+              <TabsContent value="export" className="mt-6">
+                {pdfFile && (
+                  <ExportPanel key={activeId} file={pdfFile} numPages={numPages} />
+                )}
+              </TabsContent>
+            </Tabs>
+          </Card>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
\ No newline at end of file
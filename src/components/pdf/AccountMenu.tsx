@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Loader2, LogOut, User } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+interface AccountMenuProps {
+  /** Drop everything cached locally for the signed-in user before the session ends */
+  onSignOut: () => Promise<void>;
+}
+
+// Header control showing the signed-in user with a sign-out action
+export const AccountMenu: React.FC<AccountMenuProps> = ({ onSignOut }) => {
+  const { user, logout } = useAuth();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  // Without a session the backend is used anonymously; the login screen appears on the first 401
+  if (!user) return null;
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await onSignOut();
+    } finally {
+      await logout();
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isSigningOut}>
+          {isSigningOut ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <User className="w-4 h-4 mr-2" />
+          )}
+          <span className="max-w-[10rem] truncate">{user.name || user.email}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel className="font-normal">
+          <span className="block text-sm font-medium">{user.name || user.email}</span>
+          {user.name && <span className="block text-xs text-muted-foreground">{user.email}</span>}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleSignOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
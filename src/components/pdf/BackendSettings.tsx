@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Separator } from '@/components/ui/separator';
+import { Loader2, Pencil, Plus, RefreshCw, Server, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useBackend } from '@/hooks/use-backend';
+import { normalizeBaseUrl } from '@/api/backend';
+import { pdfApi } from '@/api/pdf';
+
+const STATUS_STYLES = {
+  checking: 'bg-muted-foreground animate-pulse',
+  online: 'bg-green-500',
+  offline: 'bg-destructive',
+};
+
+const emptyForm = { id: null as string | null, name: '', baseUrl: '' };
+
+// Header button showing the active backend and its health, opening the backend settings
+export const BackendSettings: React.FC = () => {
+  const { toast } = useToast();
+  const { profile, profiles, health, checkHealth, setActiveProfile, saveProfile, removeProfile } = useBackend();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const statusLabel = health.status === 'online'
+    ? `Online · ${health.latency} ms`
+    : health.status === 'offline' ? 'Offline' : 'Checking...';
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      setFormError('Give the backend a name.');
+      return;
+    }
+    try {
+      saveProfile({
+        id: form.id ?? `custom-${Date.now().toString(36)}`,
+        name: form.name.trim(),
+        baseUrl: form.baseUrl,
+      });
+      setForm(emptyForm);
+      setFormError(null);
+    } catch (error) {
+      setFormError((error as Error).message);
+    }
+  };
+
+  const handleTest = async () => {
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeBaseUrl(form.baseUrl);
+    } catch (error) {
+      setFormError((error as Error).message);
+      return;
+    }
+
+    setFormError(null);
+    setIsTesting(true);
+    try {
+      const { latency } = await pdfApi.health(baseUrl);
+      toast({
+        title: "Backend reachable",
+        description: `${baseUrl} answered in ${latency} ms.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Backend unreachable",
+        description: `${baseUrl} did not answer the health check.`,
+        variant: "destructive",
+      });
+      console.error('Health check error:', error);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} title={profile.baseUrl}>
+        <span className={cn('w-2 h-2 mr-2 rounded-full', STATUS_STYLES[health.status])} />
+        {profile.name}
+        <span className="ml-2 text-xs text-muted-foreground hidden md:inline">{statusLabel}</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Backend</DialogTitle>
+            <DialogDescription>
+              Choose which PDF API this editor talks to. Custom backends are stored in this browser.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between rounded-lg bg-muted/40 p-3 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className={cn('w-2 h-2 rounded-full shrink-0', STATUS_STYLES[health.status])} />
+              <span className="truncate">{profile.baseUrl}</span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={checkHealth} disabled={health.status === 'checking'}>
+              <RefreshCw className={cn('w-4 h-4 mr-1', health.status === 'checking' && 'animate-spin')} />
+              {statusLabel}
+            </Button>
+          </div>
+
+          <RadioGroup value={profile.id} onValueChange={setActiveProfile} className="space-y-2">
+            {profiles.map(option => (
+              <div key={option.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                <RadioGroupItem value={option.id} id={`backend-${option.id}`} />
+                <Label htmlFor={`backend-${option.id}`} className="flex-1 min-w-0 cursor-pointer">
+                  <span className="flex items-center gap-2 font-medium text-foreground">
+                    <Server className="w-4 h-4 text-primary" />
+                    {option.name}
+                  </span>
+                  <span className="block truncate text-xs text-muted-foreground">{option.baseUrl}</span>
+                </Label>
+                {!option.builtIn && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setForm({ id: option.id, name: option.name, baseUrl: option.baseUrl })}
+                      title="Edit backend"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => removeProfile(option.id)}
+                      title="Remove backend"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </RadioGroup>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">
+              {form.id ? 'Edit backend' : 'Add a backend'}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <Input
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Name, e.g. QA"
+              />
+              <Input
+                value={form.baseUrl}
+                onChange={(e) => setForm(prev => ({ ...prev, baseUrl: e.target.value }))}
+                placeholder="https://qa.example.com/api/PDF"
+                className="md:col-span-2"
+              />
+            </div>
+            {formError && <p className="text-xs text-destructive">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              {form.id && (
+                <Button variant="ghost" onClick={() => setForm(emptyForm)}>
+                  Cancel
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleTest} disabled={!form.baseUrl || isTesting}>
+                {isTesting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Test Connection
+              </Button>
+              <Button onClick={handleSave} disabled={!form.baseUrl}>
+                <Plus className="w-4 h-4 mr-2" />
+                {form.id ? 'Save Backend' : 'Add Backend'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -1,36 +1,126 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { FileText, FileImage, Archive, Download, CheckCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import { FileText, FileImage, Archive, Download, CheckCircle, AlertTriangle, Loader2, X, Clock, Laptop } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useExportJobs, isJobActive, ExportJobEntry } from '@/hooks/use-export-jobs';
+import { useDownloadExport, useExportPdf } from '@/hooks/use-pdf-api';
 import { saveAs } from 'file-saver';
-import { pdfApi, handleApiError, pdfUtils } from '@/api/pdf';
-import { api } from '@/api/client';
-
-interface PDFFile {
-  file: File;
-  url: string;
-  fileId?: string;
-  metadata?: any;
-  edits?: any;
-}
+import { handleApiError, isRequestCancelled, pdfUtils, PDFExportRequest, TransferProgress } from '@/api/pdf';
+import { parsePageRanges } from '@/lib/pageRanges';
+import { buildEditedPdf } from '@/lib/pdfWriter';
+import { createZipSink, rasterizeToZip } from '@/lib/rasterize';
+import { cn } from '@/lib/utils';
+import { PDFFile, getChangedMetadata, getPageLayout, hasPageChanges } from './types';
 
 interface ExportPanelProps {
   file: PDFFile;
+  numPages: number;
 }
 
 type ExportFormat = 'pdf' | 'docx' | 'images';
+type ImageFormat = 'png' | 'jpg';
+type ExportQuality = NonNullable<PDFExportRequest['quality']>;
+
+const DPI_OPTIONS = [72, 96, 150, 300];
+
+const JPEG_QUALITY: Record<ExportQuality, number> = {
+  low: 0.6,
+  medium: 0.8,
+  high: 0.92,
+};
+
+const JOB_STATUS_LABELS: Record<ExportJobEntry['status'], string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+};
 
-export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
+export const ExportPanel: React.FC<ExportPanelProps> = ({ file, numPages }) => {
   const { toast } = useToast();
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('pdf');
-  const [isExporting, setIsExporting] = useState(false);
-  const [exportProgress, setExportProgress] = useState(0);
+  const [imageFormat, setImageFormat] = useState<ImageFormat>('png');
+  const [dpi, setDpi] = useState(150);
+  const [quality, setQuality] = useState<ExportQuality>('high');
+  const [pageRange, setPageRange] = useState('');
+  const [runAsJob, setRunAsJob] = useState(false);
+  const [isStartingJob, setIsStartingJob] = useState(false);
+  const [isExportingLocally, setIsExportingLocally] = useState(false);
+  const [localProgress, setLocalProgress] = useState<{ done: number; total: number } | null>(null);
+  const localAbortRef = useRef<AbortController | null>(null);
+  const exportPdf = useExportPdf();
+  const isExporting = exportPdf.isPending;
+  const [exportProgress, setExportProgress] = useState<TransferProgress | null>(null);
   const [exportComplete, setExportComplete] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { mutateAsync: downloadExport } = useDownloadExport();
+
+  // Abandon a running export when the panel goes away
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    localAbortRef.current?.abort();
+  }, []);
+
+  // Job results are fetched through the api client rather than opened by URL so the request is authenticated
+  const downloadJobResult = async (job: ExportJobEntry) => {
+    try {
+      const exported = await downloadExport({ fileId: job.fileId, exportId: job.exportId });
+      saveAs(exported, `${job.fileName.replace(/\.pdf$/i, '')}_exported.${job.format === 'images' ? 'zip' : job.format}`);
+    } catch (error) {
+      const errorInfo = handleApiError(error);
+      toast({
+        title: "Download failed",
+        description: errorInfo.message,
+        variant: "destructive",
+      });
+      console.error('Export download error:', error);
+    }
+  };
+
+  const { jobs, startJob, removeJob } = useExportJobs({
+    onFinished: (job) => {
+      if (job.status === 'done') {
+        downloadJobResult(job);
+        toast({
+          title: "Export ready",
+          description: `Your ${job.format.toUpperCase()} export of ${job.fileName} is downloading.`,
+        });
+      } else {
+        toast({
+          title: "Export failed",
+          description: job.error || `The ${job.format.toUpperCase()} export of ${job.fileName} failed.`,
+          variant: "destructive",
+        });
+      }
+    },
+  });
+  const changedMetadataCount = Object.keys(getChangedMetadata(file)).length;
+  const pagesChanged = hasPageChanges(file.edits);
+
+  // Local exports build the edited layout, whose page count changes with deleted, inserted or
+  // duplicated pages; server exports convert the stored file
+  const layoutPageCount = getPageLayout(file.edits, numPages).length;
+  const parseSelection = (pageCount: number): { pages?: number[]; error: string | null } => {
+    // An empty range exports every page
+    if (!pageRange.trim()) return { error: null };
+    try {
+      return { pages: parsePageRanges(pageRange, pageCount), error: null };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  };
+  const { pages: selectedPages, error: pageRangeError } = parseSelection(layoutPageCount);
+  const serverSelection = parseSelection(numPages);
 
   const formatOptions = [
     {
@@ -48,13 +138,111 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
     {
       value: 'images' as ExportFormat,
       label: 'Images (ZIP)',
-      description: 'Export each page as PNG/JPEG in a ZIP archive',
+      description: 'Export each page as PNG or JPEG in a ZIP archive',
       icon: FileImage,
     },
   ];
 
+  const handleLocalExport = async () => {
+    if (pageRangeError) {
+      toast({
+        title: "Invalid page range",
+        description: pageRangeError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const baseName = file.file.name.replace(/\.pdf$/i, '');
+    setIsExportingLocally(true);
+    try {
+      if (selectedFormat === 'images') {
+        // Open the destination first, while the click still counts as a user gesture
+        const sink = await createZipSink(`${baseName}_images.zip`);
+        const controller = new AbortController();
+        localAbortRef.current = controller;
+
+        let archives = 0;
+        let skipped: string[] = [];
+        try {
+          // Render from the locally edited PDF so overlays and page changes show up in the images
+          const edited = await buildEditedPdf(await file.file.arrayBuffer(), {
+            metadata: file.metadata,
+            edits: file.edits,
+            savedPageOperations: file.savedPageOperations,
+          });
+          skipped = edited.skipped;
+          archives = await rasterizeToZip(edited.bytes, sink, {
+            pages: selectedPages,
+            dpi,
+            format: imageFormat,
+            quality: JPEG_QUALITY[quality],
+            onProgress: (done, total) => setLocalProgress({ done, total }),
+            signal: controller.signal,
+          });
+        } finally {
+          // Anything that fails after the destination was opened must not leave a half-written file behind
+          if (archives === 0) {
+            await sink.abort().catch(() => undefined);
+          }
+        }
+
+        toast({
+          title: "Images exported in browser",
+          description: skipped.length > 0
+            ? `Saved without ${skipped.join(', ')}, which need the server.`
+            : archives > 1
+              ? `Every page was rendered locally and saved across ${archives} ZIP archives.`
+              : 'Every page was rendered locally and saved as a ZIP archive.',
+        });
+        return;
+      }
+
+      const { bytes, skipped } = await buildEditedPdf(await file.file.arrayBuffer(), {
+        metadata: file.metadata,
+        edits: file.edits,
+        pages: selectedPages,
+        savedPageOperations: file.savedPageOperations,
+      });
+      saveAs(new Blob([bytes], { type: 'application/pdf' }), `${baseName}_local.pdf`);
+
+      toast({
+        title: "Exported in browser",
+        description: skipped.length > 0
+          ? `Downloaded without ${skipped.join(', ')}, which need the server.`
+          : 'Your PDF was built locally and downloaded.',
+      });
+    } catch (error) {
+      // Dismissing the save dialog or pressing Cancel is not a failure
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        toast({
+          title: "Export cancelled",
+          description: "No file was saved.",
+        });
+        return;
+      }
+
+      toast({
+        title: "Local export failed",
+        description: error instanceof Error ? error.message : 'The PDF could not be written in the browser.',
+        variant: "destructive",
+      });
+      console.error('Local export error:', error);
+    } finally {
+      localAbortRef.current = null;
+      setLocalProgress(null);
+      setIsExportingLocally(false);
+    }
+  };
+
   const handleExport = async () => {
     if (!file.fileId) {
+      // Files that never reached the server can still be exported as PDF in the browser
+      if (selectedFormat === 'pdf') {
+        await handleLocalExport();
+        return;
+      }
+
       toast({
         title: "No file ID",
         description: "Cannot export without a file ID. Please re-upload the file.",
@@ -63,40 +251,64 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
       return;
     }
 
-    setIsExporting(true);
-    setExportProgress(0);
-    setExportComplete(false);
-
-    // Simulate export progress
-    const progressInterval = setInterval(() => {
-      setExportProgress(prev => {
-        if (prev >= 90) {
-          clearInterval(progressInterval);
-          return 90;
-        }
-        return prev + 10;
+    if (serverSelection.error) {
+      toast({
+        title: "Invalid page range",
+        description: serverSelection.error,
+        variant: "destructive",
       });
-    }, 200);
+      return;
+    }
 
-    try {
+    const exportOptions: Omit<PDFExportRequest, 'fileId'> = {
+      format: selectedFormat === 'images' ? imageFormat : selectedFormat,
+      quality,
+      dpi: selectedFormat === 'images' ? dpi : undefined,
+      pages: serverSelection.pages,
+      // Only the updated PDF carries the edited Info dictionary
+      metadata: selectedFormat === 'pdf' ? file.metadata : undefined,
+    };
+
+    if (runAsJob) {
+      setIsStartingJob(true);
+      try {
+        await startJob(file.fileId, file.file.name, exportOptions);
+        toast({
+          title: "Export queued",
+          description: "The file will download automatically when the conversion finishes.",
+        });
+      } catch (error) {
+        const errorInfo = handleApiError(error);
+        toast({
+          title: "Export failed",
+          description: errorInfo.message,
+          variant: "destructive",
+        });
+        console.error('Export job error:', error);
+      } finally {
+        setIsStartingJob(false);
+      }
+      return;
+    }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setExportProgress(null);
+    setExportComplete(false);
+
+    try {
       // Call the actual export API - backend returns file directly
-      const response = await api.post(`/export/${file.fileId}`, {
-        format: selectedFormat === 'images' ? 'png' : selectedFormat as 'pdf' | 'docx',
-        quality: 'high',
-      }, {
-        responseType: 'blob' // Important: tell axios to expect binary data
+      const exported = await exportPdf.mutateAsync({
+        fileId: file.fileId,
+        options: exportOptions,
+        onProgress: setExportProgress,
+        signal: controller.signal,
       });
 
-      clearInterval(progressInterval);
-      setExportProgress(100);
       setExportComplete(true);
 
-      // Log the response to debug
-      console.log('Export response:', response);
-
       // The backend returns the file directly, so we can download it immediately
-      const blob = new Blob([response.data]);
+      const blob = new Blob([exported]);
       const url = window.URL.createObjectURL(blob);
       
       const link = document.createElement('a');
@@ -113,27 +325,55 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
         description: `Your ${selectedFormat.toUpperCase()} file has been downloaded.`,
       });
     } catch (error) {
+      if (isRequestCancelled(error)) {
+        toast({
+          title: "Export cancelled",
+          description: "No file was downloaded.",
+        });
+        return;
+      }
+
       const errorInfo = handleApiError(error);
       console.error('Export error:', error);
       console.error('Error details:', errorInfo);
       
-      // Clear progress interval if it's still running
-      clearInterval(progressInterval);
-      
       toast({
         title: "Export failed",
-        description: errorInfo.message || 'An unexpected error occurred during export',
+        description: errorInfo.kind === 'network' && selectedFormat === 'pdf'
+          ? `${errorInfo.message}. Use "Export in Browser" to build the PDF without the server.`
+          : errorInfo.message || 'An unexpected error occurred during export',
         variant: "destructive",
       });
     } finally {
-      setIsExporting(false);
+      abortRef.current = null;
     }
   };
 
+  const cancelExport = () => {
+    abortRef.current?.abort();
+  };
 
   const resetExport = () => {
     setExportComplete(false);
-    setExportProgress(0);
+    setExportProgress(null);
+  };
+
+  const describeProgress = (): string => {
+    // Nothing is received until the server has finished converting
+    if (!exportProgress || exportProgress.loaded === 0) {
+      return `Preparing your ${selectedFormat.toUpperCase()} export on the server...`;
+    }
+
+    const received = pdfUtils.formatFileSize(exportProgress.loaded);
+    if (!exportProgress.total) {
+      return `Downloading... ${received} received`;
+    }
+
+    const remaining = exportProgress.estimated
+      ? ` · about ${pdfUtils.formatDuration(exportProgress.estimated)} left`
+      : '';
+    return `Downloading... ${received} of ${pdfUtils.formatFileSize(exportProgress.total)} ` +
+      `(${exportProgress.percent}%)${remaining}`;
   };
 
   return (
@@ -162,6 +402,101 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
         </RadioGroup>
       </Card>
 
+      {/* Output Settings */}
+      <Card className="p-6 bg-gradient-secondary border-0">
+        <h3 className="text-lg font-semibold text-foreground mb-4">Output Settings</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-pages">Pages</Label>
+            <Input
+              id="export-pages"
+              value={pageRange}
+              onChange={(e) => setPageRange(e.target.value)}
+              placeholder={layoutPageCount > 0 ? `All pages (1-${layoutPageCount})` : 'All pages'}
+              disabled={numPages === 0}
+            />
+            {pageRangeError ? (
+              <p className="text-xs text-destructive">{pageRangeError}</p>
+            ) : file.fileId && serverSelection.error ? (
+              <p className="text-xs text-destructive">
+                The server copy has {numPages} pages until page changes are saved: {serverSelection.error}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {selectedPages
+                  ? `${selectedPages.length} of ${layoutPageCount} page(s) selected`
+                  : 'e.g. 3-7 or 1,4,9-'}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Quality</Label>
+            <Select value={quality} onValueChange={(value) => setQuality(value as ExportQuality)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low (smallest file)</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedFormat === 'images' && (
+            <div className="space-y-2">
+              <Label>Image format</Label>
+              <RadioGroup
+                value={imageFormat}
+                onValueChange={(value) => setImageFormat(value as ImageFormat)}
+                className="flex gap-6 pt-2"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="png" id="image-png" />
+                  <Label htmlFor="image-png" className="cursor-pointer">PNG</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="jpg" id="image-jpg" />
+                  <Label htmlFor="image-jpg" className="cursor-pointer">JPEG</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          {selectedFormat === 'images' && (
+            <div className="space-y-2">
+              <Label>Resolution</Label>
+              <Select value={String(dpi)} onValueChange={(value) => setDpi(parseInt(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DPI_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} DPI
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-start justify-between gap-4 mt-6 pt-4 border-t border-border">
+          <div>
+            <Label htmlFor="export-job" className="font-medium text-foreground cursor-pointer">
+              Run as background job
+            </Label>
+            <p className="text-sm text-muted-foreground mt-1">
+              Recommended for large or DOCX conversions that take longer than a few seconds.
+            </p>
+          </div>
+          <Switch id="export-job" checked={runAsJob} onCheckedChange={setRunAsJob} />
+        </div>
+      </Card>
+
       {/* Export Progress */}
       {(isExporting || exportComplete) && (
         <Card className="p-6 bg-card border-0">
@@ -170,17 +505,30 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
               <h4 className="text-md font-semibold text-foreground">
                 {exportComplete ? 'Export Complete' : 'Exporting...'}
               </h4>
-              {exportComplete && (
+              {exportComplete ? (
                 <CheckCircle className="w-5 h-5 text-green-500" />
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={cancelExport}
+                  className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Cancel
+                </Button>
               )}
             </div>
             
-            <Progress value={exportProgress} className="w-full" />
+            <Progress
+              value={exportComplete ? 100 : exportProgress?.percent ?? 0}
+              className={cn('w-full', !exportComplete && exportProgress?.percent === undefined && 'animate-pulse')}
+            />
             
             <p className="text-sm text-muted-foreground">
               {exportComplete
                 ? 'Your file has been downloaded successfully.'
-                : `Processing your ${selectedFormat.toUpperCase()} export... ${exportProgress}%`
+                : describeProgress()
               }
             </p>
           </div>
@@ -192,7 +540,7 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
         <div className="text-center space-y-4">
           <Button
             onClick={exportComplete ? resetExport : handleExport}
-            disabled={isExporting}
+            disabled={isExporting || isStartingJob || !!(file.fileId ? serverSelection.error : pageRangeError)}
             size="lg"
             className="w-full bg-white text-primary hover:bg-white/90 shadow-custom-glow transition-all"
           >
@@ -201,10 +549,10 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
                 <Archive className="w-5 h-5 mr-2" />
                 Export Another Format
               </>
-            ) : isExporting ? (
+            ) : isExporting || isStartingJob ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Exporting...
+                {isStartingJob ? 'Starting export...' : 'Exporting...'}
               </>
             ) : (
               <>
@@ -213,6 +561,39 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
               </>
             )}
           </Button>
+
+          {selectedFormat !== 'docx' && (
+            <div className="flex gap-2">
+              <Button
+                onClick={handleLocalExport}
+                disabled={isExportingLocally || !!pageRangeError}
+                variant="outline"
+                className="flex-1 bg-transparent text-white border-white/60 hover:bg-white/10 hover:text-white"
+              >
+                {isExportingLocally ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Laptop className="w-4 h-4 mr-2" />
+                )}
+                {localProgress
+                  ? `Rendering page ${localProgress.done} of ${localProgress.total}...`
+                  : selectedFormat === 'images' ? 'Render Images in Browser' : 'Export in Browser'}
+              </Button>
+              {localProgress && (
+                <Button
+                  onClick={() => localAbortRef.current?.abort()}
+                  variant="outline"
+                  className="bg-transparent text-white border-white/60 hover:bg-white/10 hover:text-white"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Cancel
+                </Button>
+              )}
+            </div>
+          )}
+          {localProgress && (
+            <Progress value={(localProgress.done / localProgress.total) * 100} className="w-full bg-white/30" />
+          )}
           
           <p className="text-sm text-white/80">
             The exported file will be automatically downloaded to your default download folder.
@@ -220,17 +601,69 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
         </div>
       </Card>
 
+      {/* Recent Exports */}
+      {jobs.length > 0 && (
+        <Card className="p-6 bg-card border-0">
+          <h4 className="text-md font-semibold text-foreground mb-4">Recent Exports</h4>
+
+          <div className="space-y-3">
+            {jobs.map(job => (
+              <div key={job.exportId} className="flex items-center gap-3 text-sm">
+                {isJobActive(job) ? (
+                  <Loader2 className="w-4 h-4 text-primary animate-spin shrink-0" />
+                ) : job.status === 'done' ? (
+                  <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 text-destructive shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground truncate">{job.fileName}</span>
+                    <Badge variant="secondary">{job.format.toUpperCase()}</Badge>
+                    <Badge variant={job.status === 'failed' ? 'destructive' : 'outline'}>
+                      {JOB_STATUS_LABELS[job.status]}
+                      {job.status === 'running' && job.progress !== undefined && ` ${job.progress}%`}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                    {job.status === 'done' && job.fileSize > 0 && ` · ${pdfUtils.formatFileSize(job.fileSize)}`}
+                    {job.status === 'failed' && job.error && ` · ${job.error}`}
+                  </p>
+                </div>
+                {job.status === 'done' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadJobResult(job)}
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    Download
+                  </Button>
+                )}
+                {!isJobActive(job) && (
+                  <Button variant="ghost" size="sm" onClick={() => removeJob(job.exportId)} title="Remove from list">
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Export Summary */}
       {(file.metadata || file.edits) && (
         <Card className="p-6 bg-card border-0">
           <h4 className="text-md font-semibold text-foreground mb-4">Export Summary</h4>
           
           <div className="space-y-3 text-sm">
-            {file.metadata && Object.keys(file.metadata).length > 0 && (
+            {changedMetadataCount > 0 && (
               <div>
                 <span className="font-medium text-foreground">Metadata updates:</span>
                 <span className="ml-2 text-muted-foreground">
-                  {Object.keys(file.metadata).filter(key => file.metadata?.[key]).length} fields modified
+                  {changedMetadataCount} fields modified
                 </span>
               </div>
             )}
@@ -253,7 +686,28 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ file }) => {
               </div>
             )}
             
-            {(!file.metadata || Object.keys(file.metadata).length === 0) && 
+            {selectedPages && (
+              <div>
+                <span className="font-medium text-foreground">Pages:</span>
+                <span className="ml-2 text-muted-foreground">
+                  {pageRange.trim()} ({selectedPages.length} of {layoutPageCount})
+                </span>
+              </div>
+            )}
+
+            {pagesChanged && (
+              <div>
+                <span className="font-medium text-foreground">Page layout:</span>
+                <span className="ml-2 text-muted-foreground">
+                  {file.edits.pages
+                    .map(entry => (entry.sourcePage === null ? 'blank' : entry.sourcePage) +
+                      (entry.rotation ? ` (${entry.rotation}°)` : ''))
+                    .join(', ')}
+                </span>
+              </div>
+            )}
+            
+            {changedMetadataCount === 0 && !pagesChanged && 
              (!file.edits?.textOverlays || file.edits.textOverlays.length === 0) &&
              (!file.edits?.textReplacements || file.edits.textReplacements.length === 0) && (
               <div className="text-muted-foreground">
@@ -2,70 +2,133 @@ import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Upload, FileText, AlertCircle, Eye, Edit, Download, Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Upload, FileText, AlertCircle, Eye, Edit, Download, Loader2, CheckCircle, CloudOff, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { pdfApi, handleApiError, pdfUtils } from '@/api/pdf';
+import { useUploadPdf } from '@/hooks/use-pdf-api';
+import { handleApiError, isNetworkError, pdfUtils } from '@/api/pdf';
 
 interface FileUploadProps {
   onFileUpload: (file: File, fileId?: string) => void;
+  /** Called once every file of a drop has finished, with the number that were opened */
+  onUploadsComplete?: (uploadedCount: number) => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
+interface UploadItem {
+  id: string;
+  name: string;
+  size: number;
+  progress: number;
+  /** Bytes sent so far */
+  loaded?: number;
+  /** Estimated seconds remaining */
+  estimated?: number;
+  /** 'local' when the server could not be reached and the file was opened in the browser only */
+  status: 'uploading' | 'done' | 'local' | 'error';
+  error?: string;
+}
+
+let uploadCount = 0;
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onUploadsComplete }) => {
   const { toast } = useToast();
-  const [isUploading, setIsUploading] = useState(false);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const { mutateAsync: uploadPdf } = useUploadPdf();
+  const isUploading = uploads.some(upload => upload.status === 'uploading');
+
+  const updateUpload = (id: string, changes: Partial<UploadItem>) => {
+    setUploads(prev => prev.map(upload => (upload.id === id ? { ...upload, ...changes } : upload)));
+  };
+
+  const uploadFile = useCallback(
+    async (file: File): Promise<UploadItem['status']> => {
+      const id = `upload-${++uploadCount}`;
+      setUploads(prev => [
+        ...prev,
+        { id, name: file.name, size: file.size, progress: 0, status: 'uploading' },
+      ]);
+
+      // Validate file using utility function
+      const validation = pdfUtils.validateFile(file);
+      if (!validation.isValid) {
+        updateUpload(id, { status: 'error', error: validation.error });
+        return 'error';
+      }
+
+      try {
+        // Upload file to backend
+        const uploadResult = await uploadPdf({
+          file,
+          onProgress: ({ percent, loaded, estimated }) =>
+            updateUpload(id, { progress: percent ?? 0, loaded, estimated }),
+        });
+        updateUpload(id, { status: 'done', progress: 100 });
+
+        // Call parent callback with file and fileId
+        onFileUpload(file, uploadResult.fileId);
+        return 'done';
+      } catch (error) {
+        console.error('Upload error:', error);
+        // Without a server the file can still be viewed, edited and exported in the browser
+        if (isNetworkError(error)) {
+          updateUpload(id, { status: 'local', progress: 100 });
+          onFileUpload(file);
+          return 'local';
+        }
+        const errorInfo = handleApiError(error);
+        updateUpload(id, { status: 'error', error: errorInfo.message });
+        return 'error';
+      }
+    },
+    [onFileUpload, uploadPdf]
+  );
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
-      const file = acceptedFiles[0];
-      if (file) {
-        // Validate file using utility function
-        const validation = pdfUtils.validateFile(file);
-        if (!validation.isValid) {
-          toast({
-            title: "Invalid file",
-            description: validation.error,
-            variant: "destructive",
-          });
-          return;
-        }
+      if (acceptedFiles.length === 0) return;
 
-        setIsUploading(true);
-        
-        try {
-          // Upload file to backend
-          const uploadResult = await pdfApi.upload(file);
-          
-          // Call parent callback with file and fileId
-          onFileUpload(file, uploadResult.fileId);
-          
-          toast({
-            title: "File uploaded successfully",
-            description: `${file.name} is ready for editing.`,
-          });
-        } catch (error) {
-          const errorInfo = handleApiError(error);
-          toast({
-            title: "Upload failed",
-            description: errorInfo.message,
-            variant: "destructive",
-          });
-          console.error('Upload error:', error);
-        } finally {
-          setIsUploading(false);
-        }
+      const results = await Promise.all(acceptedFiles.map(uploadFile));
+      const succeeded = results.filter(status => status === 'done').length;
+      const local = results.filter(status => status === 'local').length;
+      const failed = results.length - succeeded - local;
+      onUploadsComplete?.(succeeded + local);
+
+      if (failed > 0) {
+        toast({
+          title: "Upload failed",
+          description: `${failed} of ${results.length} file(s) could not be uploaded.`,
+          variant: "destructive",
+        });
+      } else if (local > 0) {
+        toast({
+          title: "Server unreachable",
+          description: local === 1
+            ? `${acceptedFiles[results.indexOf('local')].name} was opened in this browser only; saving to the server is unavailable.`
+            : `${local} documents were opened in this browser only; saving to the server is unavailable.`,
+        });
+      } else {
+        toast({
+          title: succeeded === 1 ? "File uploaded successfully" : "Files uploaded successfully",
+          description: succeeded === 1
+            ? `${acceptedFiles[0].name} is ready for editing.`
+            : `${succeeded} documents are ready for editing.`,
+        });
       }
     },
-    [onFileUpload, toast]
+    [uploadFile, onUploadsComplete, toast]
   );
 
+  const dismissUpload = (id: string) => {
+    setUploads(prev => prev.filter(upload => upload.id !== id));
+  };
+
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
     },
-    multiple: false,
+    multiple: true,
     maxSize: 10 * 1024 * 1024, // 10MB (matching API validation)
-    disabled: isUploading,
   });
 
   return (
@@ -102,40 +165,91 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
           <div className="space-y-2">
             <h3 className="text-xl font-semibold text-foreground">
               {isUploading
-                ? 'Uploading PDF...'
+                ? 'Uploading PDFs...'
                 : isDragActive && !isDragReject
-                ? 'Drop your PDF here'
+                ? 'Drop your PDFs here'
                 : isDragReject
                 ? 'Invalid file type'
-                : 'Upload your PDF document'
+                : 'Upload your PDF documents'
               }
             </h3>
             
             <p className="text-muted-foreground">
               {isUploading
-                ? 'Please wait while we upload your file'
+                ? 'You can keep adding files while these upload'
                 : isDragReject 
                 ? 'Only PDF files are supported'
-                : 'Drag and drop a PDF file here, or click to browse'
+                : 'Drag and drop one or more PDF files here, or click to browse'
               }
             </p>
             
             <p className="text-sm text-muted-foreground">
-              Maximum file size: 10MB
+              Maximum file size: 10MB per file
             </p>
           </div>
           
-          {!isDragActive && !isUploading && (
+          {!isDragActive && (
             <Button 
               type="button" 
               className="mt-4 bg-gradient-primary hover:shadow-custom-glow transition-all"
             >
-              Choose File
+              Choose Files
             </Button>
           )}
         </div>
       </Card>
 
+      {/* Per-file upload progress */}
+      {uploads.length > 0 && (
+        <Card className="p-4 bg-card border-0 space-y-3">
+          {uploads.map(upload => (
+            <div key={upload.id} className="flex items-center gap-3">
+              {upload.status === 'uploading' ? (
+                <Loader2 className="w-5 h-5 text-primary animate-spin shrink-0" />
+              ) : upload.status === 'done' ? (
+                <CheckCircle className="w-5 h-5 text-green-500 shrink-0" />
+              ) : upload.status === 'local' ? (
+                <CloudOff className="w-5 h-5 text-muted-foreground shrink-0" />
+              ) : (
+                <AlertCircle className="w-5 h-5 text-destructive shrink-0" />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-foreground truncate">{upload.name}</span>
+                  <span className="ml-2 text-muted-foreground shrink-0">
+                    {upload.status === 'error'
+                      ? 'Failed'
+                      : upload.status === 'local'
+                        ? 'Local only'
+                        : upload.status === 'uploading' && upload.loaded !== undefined
+                          ? `${pdfUtils.formatFileSize(upload.loaded)} of ${pdfUtils.formatFileSize(upload.size)}` +
+                            (upload.estimated ? ` · ${pdfUtils.formatDuration(upload.estimated)} left` : '')
+                          : `${upload.progress}%`}
+                  </span>
+                </div>
+                {upload.status === 'error' ? (
+                  <p className="text-xs text-destructive">{upload.error}</p>
+                ) : upload.status === 'local' ? (
+                  <p className="text-xs text-muted-foreground">Server unreachable, opened in this browser only</p>
+                ) : (
+                  <Progress value={upload.progress} className="h-1.5" />
+                )}
+              </div>
+              {upload.status !== 'uploading' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => dismissUpload(upload.id)}
+                  className="shrink-0"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
         <Card className="p-4 bg-gradient-secondary border-0">
           <Eye className="w-8 h-8 text-primary mx-auto mb-2" />
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { PageViewport } from 'pdfjs-dist';
+import { cn } from '@/lib/utils';
+import type { TextMatch } from '@/lib/textSearch';
+
+interface HighlightLayerProps {
+  viewport: PageViewport;
+  pageNumber: number;
+  matches: TextMatch[];
+  activeMatch?: TextMatch | null;
+}
+
+export const HighlightLayer: React.FC<HighlightLayerProps> = ({
+  viewport,
+  pageNumber,
+  matches,
+  activeMatch,
+}) => {
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {matches
+        .filter(match => match.page === pageNumber)
+        .map(match =>
+          match.rects.map((rect, rectIndex) => {
+            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+              rect.x,
+              rect.y,
+              rect.x + rect.width,
+              rect.y + rect.height,
+            ]);
+
+            return (
+              <div
+                key={`${match.index}-${rectIndex}`}
+                className={cn(
+                  'absolute rounded-sm mix-blend-multiply',
+                  match === activeMatch ? 'bg-orange-400/60' : 'bg-yellow-300/50'
+                )}
+                style={{
+                  left: Math.min(x1, x2),
+                  top: Math.min(y1, y2),
+                  width: Math.abs(x2 - x1),
+                  height: Math.abs(y2 - y1),
+                }}
+              />
+            );
+          })
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { HistoryEntry } from '@/lib/editHistory';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+}) => {
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onUndo}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onRedo}
+        disabled={!canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" title="Edit history">
+            <History className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-0">
+          <div className="px-4 py-3 border-b border-border">
+            <h4 className="text-sm font-semibold text-foreground">Edit History</h4>
+            <p className="text-xs text-muted-foreground">Click an entry to return to that point</p>
+          </div>
+          <div className="max-h-72 overflow-y-auto">
+            <ol className="p-2 space-y-1">
+              {entries.map((entry, entryIndex) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => onJump(entryIndex)}
+                    className={cn(
+                      'w-full flex items-center justify-between rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-accent',
+                      entryIndex === index && 'bg-primary text-primary-foreground hover:bg-primary',
+                      entryIndex > index && 'text-muted-foreground line-through'
+                    )}
+                  >
+                    <span className="truncate">{entry.label}</span>
+                    <span className="ml-2 text-xs opacity-70">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
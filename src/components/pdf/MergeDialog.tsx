@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Document } from 'react-pdf';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ArrowDown, ArrowUp, Combine, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { pdfApi, handleApiError } from '@/api/pdf';
+import '@/lib/pdfjs';
+import { parsePageRanges } from '@/lib/pageRanges';
+import { WorkspaceDocument } from '@/hooks/use-workspace';
+import { PageThumbnail } from './PageThumbnail';
+
+interface MergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documents: WorkspaceDocument[];
+  onMerged: (file: File, fileId: string) => void;
+}
+
+interface MergeItem {
+  documentId: string;
+  included: boolean;
+  /** Page range expression; all pages when empty */
+  range: string;
+}
+
+type ItemPages = { pages: number[] } | { error: string } | null;
+
+const PREVIEW_WIDTH = 72;
+const MAX_PREVIEW_PAGES = 40;
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({
+  open,
+  onOpenChange,
+  documents,
+  onMerged,
+}) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<MergeItem[]>([]);
+  const [pageCounts, setPageCounts] = useState<Record<string, number>>({});
+  const [isMerging, setIsMerging] = useState(false);
+
+  // Only documents stored on the server can be merged
+  const uploaded = documents.filter(document => document.file.fileId);
+  // Read when the dialog opens; workspace changes while it is open leave the user's list alone
+  const uploadedRef = useRef(uploaded);
+  uploadedRef.current = uploaded;
+
+  // Start from the workspace order each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setItems(uploadedRef.current.map(document => ({ documentId: document.id, included: true, range: '' })));
+    }
+  }, [open]);
+
+  const findDocument = (id: string) => documents.find(document => document.id === id);
+
+  const getItemPages = (item: MergeItem): ItemPages => {
+    const numPages = pageCounts[item.documentId] || findDocument(item.documentId)?.numPages;
+    if (!numPages) return null;
+
+    if (!item.range.trim()) {
+      return { pages: Array.from({ length: numPages }, (_, i) => i + 1) };
+    }
+    try {
+      return { pages: parsePageRanges(item.range, numPages) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<MergeItem>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    setItems(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const included = items.filter(item => item.included && findDocument(item.documentId));
+  const resolved = included.map(item => ({ item, result: getItemPages(item) }));
+  const hasErrors = resolved.some(({ result }) => !result || 'error' in result);
+  const totalPages = resolved.reduce(
+    (total, { result }) => total + (result && 'pages' in result ? result.pages.length : 0),
+    0
+  );
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      const result = await pdfApi.merge(resolved.map(({ item, result }) => ({
+        fileId: findDocument(item.documentId).file.fileId,
+        pages: item.range.trim() && result && 'pages' in result ? result.pages : undefined,
+      })));
+      const blob = await pdfApi.getFile(result.fileId);
+      const merged = new File([blob], result.fileName, { type: 'application/pdf' });
+
+      onMerged(merged, result.fileId);
+      onOpenChange(false);
+      toast({
+        title: "PDFs merged",
+        description: `${result.fileName} was created from ${included.length} documents.`,
+      });
+    } catch (error) {
+      const errorInfo = handleApiError(error);
+      toast({
+        title: "Merge failed",
+        description: errorInfo.message,
+        variant: "destructive",
+      });
+      console.error('Merge error:', error);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  // Preview pages are capped so large packets do not render hundreds of thumbnails
+  let previewBudget = MAX_PREVIEW_PAGES;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Merge PDFs</DialogTitle>
+          <DialogDescription>
+            Choose the uploaded documents to combine, put them in order and optionally limit each to a page range.
+          </DialogDescription>
+        </DialogHeader>
+
+        {uploaded.length < 2 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Upload at least two documents to merge them.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {items.map((item, index) => {
+                const document = findDocument(item.documentId);
+                if (!document) return null;
+                const result = item.included ? getItemPages(item) : null;
+
+                return (
+                  <div key={item.documentId} className="flex items-start gap-3 rounded-lg bg-muted/40 p-3">
+                    <Checkbox
+                      checked={item.included}
+                      onCheckedChange={(checked) => updateItem(index, { included: checked === true })}
+                      className="mt-2"
+                      aria-label={`Include ${document.file.file.name}`}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1 truncate text-sm font-medium">{document.file.file.name}</span>
+                        <Input
+                          value={item.range}
+                          onChange={(e) => updateItem(index, { range: e.target.value })}
+                          placeholder="All pages, e.g. 1-3,5"
+                          disabled={!item.included}
+                          className="w-44 h-8"
+                        />
+                      </div>
+                      {result && 'error' in result && (
+                        <p className="text-xs text-destructive">{result.error}</p>
+                      )}
+                      {result && 'pages' in result && (
+                        <p className="text-xs text-muted-foreground">{result.pages.length} page(s)</p>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => moveItem(index, -1)}
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => moveItem(index, 1)}
+                        disabled={index === items.length - 1}
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Combined Preview */}
+            <div>
+              <h4 className="mb-2 text-sm font-medium text-foreground">
+                Preview · {totalPages} page{totalPages === 1 ? '' : 's'}
+              </h4>
+              <div className="flex flex-wrap gap-2 max-h-64 overflow-y-auto rounded-lg bg-muted/40 p-2">
+                {resolved.map(({ item, result }) => {
+                  const document = findDocument(item.documentId);
+                  const pages = result && 'pages' in result ? result.pages.slice(0, Math.max(previewBudget, 0)) : [];
+                  previewBudget -= pages.length;
+
+                  return (
+                    <Document
+                      key={item.documentId}
+                      file={document.file.url}
+                      onLoadSuccess={(pdf) => setPageCounts(prev => ({ ...prev, [item.documentId]: pdf.numPages }))}
+                      loading={null}
+                      className="contents"
+                    >
+                      {pages.map((pageNumber, i) => (
+                        <div
+                          key={`${pageNumber}-${i}`}
+                          className="flex items-center justify-center overflow-hidden rounded bg-white"
+                          style={{ width: PREVIEW_WIDTH, height: PREVIEW_WIDTH * 1.35 }}
+                          title={`${document.file.file.name} · page ${pageNumber}`}
+                        >
+                          <PageThumbnail entry={{ id: `${pageNumber}`, sourcePage: pageNumber }} width={PREVIEW_WIDTH} />
+                        </div>
+                      ))}
+                    </Document>
+                  );
+                })}
+                {totalPages > MAX_PREVIEW_PAGES && (
+                  <div className="flex items-center px-3 text-xs text-muted-foreground">
+                    +{totalPages - MAX_PREVIEW_PAGES} more
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={included.length < 2 || hasErrors || isMerging}
+            className="bg-gradient-primary hover:shadow-custom-glow transition-all"
+          >
+            {isMerging ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Combine className="w-4 h-4 mr-2" />
+            )}
+            Merge {included.length} Documents
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
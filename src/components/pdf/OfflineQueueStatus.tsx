@@ -0,0 +1,109 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CloudOff, CloudUpload, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useOfflineQueue } from '@/hooks/use-offline-queue';
+import type { QueuedSave } from '@/api/offlineQueue';
+
+const describeSave = (save: QueuedSave) => {
+  const parts = [
+    save.metadata && 'metadata',
+    save.edits.length > 0 && `${save.edits.length} edit${save.edits.length === 1 ? '' : 's'}`,
+    save.pageOperations.length > 0 && 'page changes',
+  ].filter(Boolean);
+  return parts.join(', ');
+};
+
+// Header indicator for the connection and saves waiting to be sent; hidden while online with nothing queued
+export const OfflineQueueStatus: React.FC = () => {
+  const { entries, isOnline, isSyncing, flush, retry, discard } = useOfflineQueue();
+
+  if (isOnline && entries.length === 0) return null;
+
+  const hasError = entries.some(entry => entry.error);
+  const label = !isOnline
+    ? 'Offline'
+    : isSyncing ? 'Syncing...' : `${entries.length} pending`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn(hasError && 'text-destructive')}>
+          {isSyncing ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : isOnline ? (
+            <CloudUpload className="w-4 h-4 mr-2" />
+          ) : (
+            <CloudOff className="w-4 h-4 mr-2" />
+          )}
+          {label}
+          {!isOnline && entries.length > 0 && (
+            <span className="ml-2 text-xs text-muted-foreground">{entries.length} queued</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="px-4 py-3 border-b border-border">
+          <h4 className="text-sm font-semibold text-foreground">Pending Saves</h4>
+          <p className="text-xs text-muted-foreground">
+            {isOnline
+              ? 'Saves are sent in the order they were made.'
+              : 'You are offline. Saves are sent when the connection returns.'}
+          </p>
+        </div>
+        {entries.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">Nothing waiting to be saved</p>
+        ) : (
+          <ol className="max-h-72 overflow-y-auto p-2 space-y-1">
+            {entries.map(entry => (
+              <li key={entry.id} className="rounded-md px-3 py-2 text-sm hover:bg-accent">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate font-medium">{entry.fileName}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {new Date(entry.queuedAt).toLocaleTimeString()}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">{describeSave(entry)}</p>
+                {entry.error && (
+                  <div className="mt-1 flex items-center justify-between gap-2">
+                    <p className="text-xs text-destructive">{entry.error}</p>
+                    <div className="flex gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => retry(entry.id)}
+                        disabled={!isOnline || isSyncing}
+                        title="Retry save"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => discard(entry.id)}
+                        title="Discard save"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+        {isOnline && entries.length > 0 && !hasError && (
+          <div className="border-t border-border p-2">
+            <Button variant="ghost" size="sm" className="w-full" onClick={flush} disabled={isSyncing}>
+              <RefreshCw className={cn('w-4 h-4 mr-2', isSyncing && 'animate-spin')} />
+              Sync Now
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ArrowDown,
+  ArrowUp,
+  BookmarkPlus,
+  ChevronDown,
+  ChevronRight,
+  IndentDecrease,
+  IndentIncrease,
+  Loader2,
+  Pencil,
+  Save,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveOutline } from '@/hooks/use-pdf-api';
+import { handleApiError } from '@/api/pdf';
+import { readOutline } from '@/lib/pdfjs';
+import {
+  createOutlineEntry,
+  getOutlineMoves,
+  indentOutlineEntry,
+  insertOutlineEntry,
+  moveOutlineEntry,
+  outdentOutlineEntry,
+  removeOutlineEntry,
+  toOutlineEntries,
+  toOutlineItems,
+  updateOutlineEntry,
+} from '@/lib/outline';
+import type { OutlineEntry } from './types';
+
+interface OutlinePanelProps {
+  pdf: PDFDocumentProxy;
+  /** Backend file the outline is saved to; editing stays local until the file is uploaded */
+  fileId?: string;
+  /** Page of the file being viewed, or null on an inserted blank page */
+  currentPage: number | null;
+  onNavigate: (page: number) => void;
+  onClose: () => void;
+}
+
+// Bookmark tree of the document; edits are kept here until saved as a whole
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({
+  pdf,
+  fileId,
+  currentPage,
+  onNavigate,
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<OutlineEntry[] | null>(null);
+  // Serialized outline as last read or saved, to tell whether there is anything to save
+  const [savedOutline, setSavedOutline] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const saveOutline = useSaveOutline();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    readOutline(pdf)
+      .then(items => {
+        if (cancelled) return;
+        const loaded = toOutlineEntries(items);
+        setEntries(loaded);
+        setSavedOutline(JSON.stringify(toOutlineItems(loaded)));
+      })
+      .catch(error => {
+        console.error('Outline error:', error);
+        if (!cancelled) setEntries([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  const isDirty = entries !== null && JSON.stringify(toOutlineItems(entries)) !== savedOutline;
+  const moves = getOutlineMoves(entries || [], selectedId);
+
+  const change = (update: (current: OutlineEntry[]) => OutlineEntry[]) => {
+    setEntries(current => (current ? update(current) : current));
+  };
+
+  const addBookmark = () => {
+    if (currentPage === null) return;
+    const entry = createOutlineEntry(`Page ${currentPage}`, currentPage);
+    change(current => insertOutlineEntry(current, entry, selectedId));
+    setSelectedId(entry.id);
+    setEditingId(entry.id);
+  };
+
+  const deleteSelected = () => {
+    if (!selectedId) return;
+    change(current => removeOutlineEntry(current, selectedId));
+    setSelectedId(null);
+  };
+
+  const commitTitle = (id: string, title: string) => {
+    setEditingId(null);
+    if (title.trim()) {
+      change(current => updateOutlineEntry(current, id, { title: title.trim() }));
+    }
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!fileId || !entries) return;
+    const outline = toOutlineItems(entries);
+    try {
+      await saveOutline.mutateAsync({ fileId, outline });
+      setSavedOutline(JSON.stringify(outline));
+      toast({
+        title: "Outline saved",
+        description: "Bookmarks have been written to the document.",
+      });
+    } catch (error) {
+      const errorInfo = handleApiError(error);
+      toast({
+        title: "Save failed",
+        description: errorInfo.message,
+        variant: "destructive",
+      });
+      console.error('Outline save error:', error);
+    }
+  };
+
+  const handleRevert = () => {
+    const restored = toOutlineEntries(JSON.parse(savedOutline));
+    setEntries(restored);
+    setSavedOutline(JSON.stringify(toOutlineItems(restored)));
+    setSelectedId(null);
+    setEditingId(null);
+  };
+
+  const renderEntries = (list: OutlineEntry[], depth: number): React.ReactNode => (
+    <ul>
+      {list.map(entry => {
+        const hasChildren = entry.children.length > 0;
+        const isCollapsed = collapsed.has(entry.id);
+        const isEditing = editingId === entry.id;
+
+        return (
+          <li key={entry.id}>
+            <div
+              className={cn(
+                'flex items-center gap-1 rounded-md pr-2 text-sm hover:bg-accent',
+                selectedId === entry.id && 'bg-accent',
+                entry.pageNumber !== null && entry.pageNumber === currentPage && 'font-medium'
+              )}
+              style={{ paddingLeft: depth * 12 }}
+            >
+              <button
+                type="button"
+                onClick={() => toggleCollapsed(entry.id)}
+                className={cn('p-1 text-muted-foreground', !hasChildren && 'invisible')}
+                title={isCollapsed ? 'Expand' : 'Collapse'}
+              >
+                {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              </button>
+              {isEditing ? (
+                <Input
+                  autoFocus
+                  defaultValue={entry.title}
+                  onBlur={(e) => commitTitle(entry.id, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="h-7 text-sm"
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelectedId(entry.id);
+                    if (entry.pageNumber) onNavigate(entry.pageNumber);
+                  }}
+                  onDoubleClick={() => setEditingId(entry.id)}
+                  className="flex flex-1 items-center justify-between gap-2 py-1 text-left min-w-0"
+                >
+                  <span className="truncate">{entry.title || 'Untitled'}</span>
+                  {entry.pageNumber && (
+                    <span className="text-xs text-muted-foreground shrink-0">{entry.pageNumber}</span>
+                  )}
+                </button>
+              )}
+            </div>
+            {hasChildren && !isCollapsed && renderEntries(entry.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="w-64 shrink-0 flex flex-col h-[75vh] rounded-lg border border-border bg-card">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <h4 className="text-sm font-semibold text-foreground">Outline</h4>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close outline">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 px-2 py-1 border-b border-border">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={addBookmark}
+          disabled={!entries || currentPage === null}
+          title={currentPage === null ? 'Blank pages cannot be bookmarked' : `Add bookmark for page ${currentPage}`}
+        >
+          <BookmarkPlus className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setEditingId(selectedId)}
+          disabled={!selectedId}
+          title="Rename bookmark"
+        >
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => change(current => moveOutlineEntry(current, selectedId, -1))}
+          disabled={!moves.up}
+          title="Move up"
+        >
+          <ArrowUp className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => change(current => moveOutlineEntry(current, selectedId, 1))}
+          disabled={!moves.down}
+          title="Move down"
+        >
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => change(current => indentOutlineEntry(current, selectedId))}
+          disabled={!moves.indent}
+          title="Nest under the bookmark above"
+        >
+          <IndentIncrease className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => change(current => outdentOutlineEntry(current, selectedId))}
+          disabled={!moves.outdent}
+          title="Move out of the parent bookmark"
+        >
+          <IndentDecrease className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-destructive"
+          onClick={deleteSelected}
+          disabled={!selectedId}
+          title="Delete bookmark and its children"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1">
+        {entries === null ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+            This document has no bookmarks
+          </p>
+        ) : (
+          renderEntries(entries, 0)
+        )}
+      </div>
+
+      {isDirty && (
+        <div className="border-t border-border p-2 space-y-2">
+          {!fileId && (
+            <p className="text-xs text-muted-foreground">Upload the file to the server to save bookmarks.</p>
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={handleRevert}>
+              Revert
+            </Button>
+            <Button
+              size="sm"
+              className="flex-1"
+              onClick={handleSave}
+              disabled={!fileId || saveOutline.isPending}
+            >
+              {saveOutline.isPending ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-1" />
+              )}
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PageViewport } from 'pdfjs-dist';
+import { cn } from '@/lib/utils';
+import { TextOverlay, getOverlayHeight, getOverlayWidth } from './types';
+
+interface OverlayLayerProps {
+  viewport: PageViewport;
+  pageNumber: number;
+  overlays: TextOverlay[];
+  placing: boolean;
+  onOverlaysChange: (overlays: TextOverlay[], label: string) => void;
+}
+
+type DragState = {
+  index: number;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: TextOverlay;
+};
+
+const MIN_FONT_SIZE = 6;
+const MIN_WIDTH = 10;
+
+const updateOverlay = (list: TextOverlay[], index: number, changes: Partial<TextOverlay>) =>
+  list.map((overlay, i) => (i === index ? { ...overlay, ...changes } : overlay));
+
+export const OverlayLayer: React.FC<OverlayLayerProps> = ({
+  viewport,
+  pageNumber,
+  overlays,
+  placing,
+  onOverlaysChange,
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<TextOverlay[] | null>(null);
+  const draftRef = useRef<TextOverlay[] | null>(null);
+
+  // While dragging we render the draft so the parent only receives the final position
+  const visibleOverlays = draft ?? overlays;
+  const { scale, rotation } = viewport;
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const showDraft = (next: TextOverlay[] | null) => {
+      draftRef.current = next;
+      setDraft(next);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+
+      if (drag.mode === 'move') {
+        const [vx, vy] = viewport.convertToViewportPoint(drag.origin.x, drag.origin.y);
+        const [x, y] = viewport.convertToPdfPoint(vx + dx, vy + dy);
+        showDraft(updateOverlay(overlays, drag.index, { x: Math.round(x), y: Math.round(y) }));
+      } else {
+        // Project the pointer delta back onto the (possibly rotated) overlay axes
+        const radians = (-rotation * Math.PI) / 180;
+        const localX = (dx * Math.cos(radians) - dy * Math.sin(radians)) / scale;
+        const localY = (dx * Math.sin(radians) + dy * Math.cos(radians)) / scale;
+        const width = Math.max(getOverlayWidth(drag.origin) + localX, MIN_WIDTH);
+        const fontSize = Math.max((getOverlayHeight(drag.origin) + localY) / 1.2, MIN_FONT_SIZE);
+        showDraft(updateOverlay(overlays, drag.index, {
+          width: Math.round(width),
+          fontSize: Math.round(fontSize),
+        }));
+      }
+    };
+
+    const handlePointerUp = () => {
+      if (draftRef.current) {
+        onOverlaysChange(draftRef.current, drag.mode === 'move' ? 'Move text overlay' : 'Resize text overlay');
+      }
+      showDraft(null);
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [drag, overlays, viewport, scale, rotation, onOverlaysChange]);
+
+  const startDrag = (e: React.PointerEvent, index: number, mode: DragState['mode']) => {
+    if (editingIndex === index) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ index, mode, startX: e.clientX, startY: e.clientY, origin: overlays[index] });
+  };
+
+  const handleLayerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!placing || !layerRef.current || e.target !== layerRef.current) return;
+
+    const rect = layerRef.current.getBoundingClientRect();
+    const [x, y] = viewport.convertToPdfPoint(e.clientX - rect.left, e.clientY - rect.top);
+    const newOverlay: TextOverlay = {
+      page: pageNumber,
+      x: Math.round(x),
+      y: Math.round(y),
+      text: 'Text',
+      fontSize: 12,
+      color: '#000000',
+    };
+
+    onOverlaysChange([...overlays, newOverlay], 'Add text overlay');
+    setEditingIndex(overlays.length);
+  };
+
+  const commitText = (index: number, text: string) => {
+    setEditingIndex(null);
+    if (!text.trim()) {
+      onOverlaysChange(overlays.filter((_, i) => i !== index), 'Remove text overlay');
+    } else if (text !== overlays[index]?.text) {
+      onOverlaysChange(updateOverlay(overlays, index, { text }), 'Edit overlay text');
+    }
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      onClick={handleLayerClick}
+      className={cn('absolute inset-0 z-10', placing ? 'cursor-crosshair' : 'pointer-events-none')}
+      style={{ width: viewport.width, height: viewport.height }}
+    >
+      {visibleOverlays.map((overlay, index) => {
+        if (overlay.page !== pageNumber) return null;
+
+        const [left, top] = viewport.convertToViewportPoint(overlay.x, overlay.y);
+        const isEditing = editingIndex === index;
+
+        return (
+          <div
+            key={index}
+            onPointerDown={(e) => startDrag(e, index, 'move')}
+            onDoubleClick={() => setEditingIndex(index)}
+            className={cn(
+              'group absolute border border-dashed border-transparent hover:border-primary pointer-events-auto',
+              isEditing ? 'border-primary cursor-text' : 'cursor-move',
+              drag?.index === index && 'border-primary'
+            )}
+            style={{
+              left,
+              top,
+              width: getOverlayWidth(overlay) * scale,
+              height: getOverlayHeight(overlay) * scale,
+              transform: `rotate(${rotation}deg)`,
+              transformOrigin: 'top left',
+            }}
+          >
+            {isEditing ? (
+              <input
+                autoFocus
+                defaultValue={overlay.text}
+                onBlur={(e) => commitText(index, e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setEditingIndex(null);
+                }}
+                className="w-full h-full bg-white/80 outline-none p-0"
+                style={{ color: overlay.color, fontSize: overlay.fontSize * scale }}
+              />
+            ) : (
+              <span
+                className="block whitespace-nowrap overflow-hidden select-none leading-[1.2]"
+                style={{ color: overlay.color, fontSize: overlay.fontSize * scale }}
+              >
+                {overlay.text}
+              </span>
+            )}
+            {!isEditing && (
+              <div
+                onPointerDown={(e) => startDrag(e, index, 'resize')}
+                className="absolute -right-1 -bottom-1 w-2 h-2 bg-primary rounded-sm cursor-se-resize opacity-0 group-hover:opacity-100"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -7,51 +7,45 @@ import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Tags, Type, Plus, Trash2, Loader2, Save } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FileText, Tags, Type, Plus, Trash2, Loader2, Save, Search } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { pdfApi, handleApiError } from '@/api/pdf';
-
-interface PDFFile {
-  file: File;
-  url: string;
-  fileId?: string;
-  metadata?: {
-    title?: string;
-    author?: string;
-    subject?: string;
-    keywords?: string;
-  };
-  edits?: {
-    textOverlays?: Array<{
-      page: number;
-      x: number;
-      y: number;
-      text: string;
-      fontSize: number;
-      color: string;
-    }>;
-    textReplacements?: Array<{
-      page: number;
-      original: string;
-      replacement: string;
-    }>;
-  };
-}
+import { usePdfPreview, useSaveEdits, useSavedOverlays } from '@/hooks/use-pdf-api';
+import { handleApiError, PDFPageOperation } from '@/api/pdf';
+import { offlineQueue } from '@/api/offlineQueue';
+import { loadPdfDocument } from '@/lib/pdfjs';
+import { TextMatch, buildMatcher, findPageMatches } from '@/lib/textSearch';
+import {
+  PDFFile,
+  TextOverlay,
+  TextReplacement,
+  getChangedMetadata,
+  getOverlayHeight,
+  getOverlayWidth,
+} from './types';
 
 interface PDFEditPanelProps {
   file: PDFFile;
-  onMetadataUpdate: (metadata: PDFFile['metadata']) => void;
-  onEditsUpdate: (edits: PDFFile['edits']) => void;
+  onMetadataUpdate: (metadata: PDFFile['metadata'], label?: string, mergeKey?: string) => void;
+  onEditsUpdate: (edits: PDFFile['edits'], label?: string) => void;
+  onPreviewMatches: (matches: TextMatch[]) => void;
+  /** Page operations the server has just applied, so they are not sent or laid out again */
+  onPageOperationsSaved: (operations: PDFPageOperation[]) => void;
 }
 
 export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
   file,
   onMetadataUpdate,
   onEditsUpdate,
+  onPreviewMatches,
+  onPageOperationsSaved,
 }) => {
   const { toast } = useToast();
-  const [metadata, setMetadata] = useState(file.metadata || {});
-  const [isSaving, setIsSaving] = useState(false);
+  const metadata = file.metadata || {};
+  const saveEdits = useSaveEdits();
+  const isSaving = saveEdits.isPending;
+  const { data: savedOverlays = [] } = useSavedOverlays(file.fileId);
+  const preview = usePdfPreview(file.fileId);
   const [newOverlay, setNewOverlay] = useState({
     page: 1,
     x: 100,
@@ -60,16 +54,19 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
     fontSize: 12,
     color: '#000000',
   });
-  const [newReplacement, setNewReplacement] = useState({
+  const [newReplacement, setNewReplacement] = useState<TextReplacement>({
     page: 1,
     original: '',
     replacement: '',
+    matchCase: false,
+    wholeWord: false,
+    allOccurrences: true,
   });
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   const handleMetadataChange = (field: string, value: string) => {
-    const updatedMetadata = { ...metadata, [field]: value };
-    setMetadata(updatedMetadata);
-    onMetadataUpdate(updatedMetadata);
+    // Typing into the same field collapses into a single history entry
+    onMetadataUpdate({ ...metadata, [field]: value }, `Edit ${field}`, `metadata-${field}`);
   };
 
   const saveEditsToBackend = async () => {
@@ -82,15 +79,14 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
       return;
     }
 
-    setIsSaving(true);
     try {
       // Convert local edits to API format
       const edits = file.edits?.textOverlays?.map(overlay => ({
         pageNumber: overlay.page,
         x: overlay.x,
         y: overlay.y,
-        width: overlay.text.length * overlay.fontSize * 0.6, // Approximate width
-        height: overlay.fontSize * 1.2, // Approximate height
+        width: getOverlayWidth(overlay),
+        height: getOverlayHeight(overlay),
         text: overlay.text,
         action: 'add_text' as const,
       })) || [];
@@ -98,31 +94,61 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
       // Add text replacements as edits
       const replacementEdits = file.edits?.textReplacements?.map(replacement => ({
         pageNumber: replacement.page,
-        x: 0, // Will be determined by backend
-        y: 0,
-        width: 0,
-        height: 0,
-        text: replacement.replacement,
-        action: 'add_text' as const,
+        original: replacement.original,
+        replacement: replacement.replacement,
+        matchCase: !!replacement.matchCase,
+        wholeWord: !!replacement.wholeWord,
+        allOccurrences: !!replacement.allOccurrences,
+        action: 'replace_text' as const,
       })) || [];
 
       const allEdits = [...edits, ...replacementEdits];
+      // Operations still waiting in the offline queue are already on their way
+      const queuedOperations = offlineQueue.getQueuedPageOperations(file.fileId);
+      const pageOperations = (file.edits?.pageOperations || []).slice(queuedOperations.length);
+      const changedMetadata = getChangedMetadata(file);
+      const hasMetadataChanges = Object.keys(changedMetadata).length > 0;
 
-      if (allEdits.length === 0) {
+      if (allEdits.length === 0 && pageOperations.length === 0 && !hasMetadataChanges) {
         toast({
           title: "No edits to save",
-          description: "Please add some text overlays or replacements before saving.",
+          description: "Please add text overlays, replacements, page changes or metadata edits before saving.",
           variant: "destructive",
         });
         return;
       }
 
-      const result = await pdfApi.edit(file.fileId, allEdits);
-      
-      toast({
-        title: "Edits saved successfully",
-        description: `Your edits have been saved to the server.`,
+      // Saves made while offline are queued and replayed in order when the connection returns
+      const result = await saveEdits.mutateAsync({
+        save: {
+          fileId: file.fileId,
+          fileName: file.file.name,
+          metadata: hasMetadataChanges ? file.metadata : undefined,
+          edits: allEdits,
+          pageOperations,
+        },
+        overlays: file.edits?.textOverlays || [],
       });
+
+      if (result === 'queued') {
+        toast({
+          title: "Edits queued",
+          description: "You appear to be offline. Your edits will be saved when the connection returns.",
+        });
+      } else if (result === 'waiting') {
+        toast({
+          title: "Edits queued",
+          description: "Earlier edits are still being sent. These will be saved right after them.",
+        });
+      } else {
+        if (pageOperations.length > 0) {
+          onPageOperationsSaved(pageOperations);
+        }
+        toast({
+          title: "Edits saved successfully",
+          description: `Your edits have been saved to the server.`,
+        });
+      }
     } catch (error) {
       const errorInfo = handleApiError(error);
       toast({
@@ -131,11 +157,13 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
         variant: "destructive",
       });
       console.error('Save error:', error);
-    } finally {
-      setIsSaving(false);
     }
   };
 
+  // Overlays shown as saved once a save including them was sent (or queued); rolled back if it fails
+  const isOverlaySaved = (overlay: TextOverlay) =>
+    savedOverlays.some(saved => JSON.stringify(saved) === JSON.stringify(overlay));
+
   const addTextOverlay = () => {
     if (!newOverlay.text.trim()) {
       toast({
@@ -154,7 +182,7 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
     onEditsUpdate({
       ...file.edits,
       textOverlays: updatedOverlays,
-    });
+    }, 'Add text overlay');
 
     setNewOverlay({
       page: 1,
@@ -176,7 +204,7 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
     onEditsUpdate({
       ...file.edits,
       textOverlays: updatedOverlays,
-    });
+    }, 'Remove text overlay');
 
     toast({
       title: "Text overlay removed",
@@ -202,10 +230,10 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
     onEditsUpdate({
       ...file.edits,
       textReplacements: updatedReplacements,
-    });
+    }, 'Add text replacement');
 
     setNewReplacement({
-      page: 1,
+      ...newReplacement,
       original: '',
       replacement: '',
     });
@@ -216,12 +244,66 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
     });
   };
 
+  const previewReplacement = async (replacement: TextReplacement) => {
+    const matcher = buildMatcher(replacement.original, replacement);
+    if (!matcher) {
+      toast({
+        title: "Missing text",
+        description: "Please enter the original text to preview.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      // Replacements are applied to the server's copy, which already includes saved page changes
+      const source = file.fileId
+        ? (preview.data ?? (await preview.refetch({ throwOnError: true })).data).previewUrl
+        : file.url;
+      const pdf = await loadPdfDocument(source);
+      try {
+        if (replacement.page < 1 || replacement.page > pdf.numPages) {
+          toast({
+            title: "Invalid page",
+            description: `The document has ${pdf.numPages} pages.`,
+            variant: "destructive",
+          });
+          return;
+        }
+
+        const matches = await findPageMatches(await pdf.getPage(replacement.page), matcher);
+        if (matches.length === 0) {
+          toast({
+            title: "No matches found",
+            description: `"${replacement.original}" does not appear on page ${replacement.page}.`,
+            variant: "destructive",
+          });
+          return;
+        }
+
+        onPreviewMatches(replacement.allOccurrences ? matches : matches.slice(0, 1));
+      } finally {
+        pdf.destroy();
+      }
+    } catch (error) {
+      toast({
+        title: "Preview failed",
+        description: "Could not read the text of the document.",
+        variant: "destructive",
+      });
+      console.error('Preview error:', error);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const removeTextReplacement = (index: number) => {
     const updatedReplacements = (file.edits?.textReplacements || []).filter((_, i) => i !== index);
     onEditsUpdate({
       ...file.edits,
       textReplacements: updatedReplacements,
-    });
+    }, 'Remove text replacement');
 
     toast({
       title: "Text replacement removed",
@@ -428,6 +510,9 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
                         <span className="text-sm text-muted-foreground">
                           ({overlay.x}, {overlay.y})
                         </span>
+                        {file.fileId && (
+                          <Badge variant="outline">{isOverlaySaved(overlay) ? 'Saved' : 'Unsaved'}</Badge>
+                        )}
                       </div>
                       <p className="font-medium text-foreground">{overlay.text}</p>
                       <p className="text-sm text-muted-foreground">
@@ -488,11 +573,52 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
                   />
                 </div>
               </div>
+
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="replace-match-case"
+                    checked={newReplacement.matchCase}
+                    onCheckedChange={(checked) => setNewReplacement({ ...newReplacement, matchCase: checked === true })}
+                  />
+                  <Label htmlFor="replace-match-case">Match case</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="replace-whole-word"
+                    checked={newReplacement.wholeWord}
+                    onCheckedChange={(checked) => setNewReplacement({ ...newReplacement, wholeWord: checked === true })}
+                  />
+                  <Label htmlFor="replace-whole-word">Whole word</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="replace-all"
+                    checked={newReplacement.allOccurrences}
+                    onCheckedChange={(checked) => setNewReplacement({ ...newReplacement, allOccurrences: checked === true })}
+                  />
+                  <Label htmlFor="replace-all">All occurrences</Label>
+                </div>
+              </div>
               
-              <Button onClick={addTextReplacement} className="w-full bg-gradient-primary hover:shadow-custom-glow transition-all">
-                <Plus className="w-4 h-4 mr-2" />
-                Add Text Replacement
-              </Button>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Button
+                  variant="outline"
+                  onClick={() => previewReplacement(newReplacement)}
+                  disabled={isPreviewing}
+                >
+                  {isPreviewing ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Search className="w-4 h-4 mr-2" />
+                  )}
+                  Preview Matches
+                </Button>
+                <Button onClick={addTextReplacement} className="bg-gradient-primary hover:shadow-custom-glow transition-all">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Text Replacement
+                </Button>
+              </div>
             </div>
           </Card>
 
@@ -506,6 +632,9 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-2">
                         <Badge variant="secondary">Page {replacement.page}</Badge>
+                        {replacement.matchCase && <Badge variant="outline">Aa</Badge>}
+                        {replacement.wholeWord && <Badge variant="outline">Whole word</Badge>}
+                        <Badge variant="outline">{replacement.allOccurrences ? 'All' : 'First'}</Badge>
                       </div>
                       <div className="text-sm">
                         <div className="mb-1">
@@ -518,14 +647,24 @@ export const PDFEditPanel: React.FC<PDFEditPanelProps> = ({
                         </div>
                       </div>
                     </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeTextReplacement(index)}
-                      className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => previewReplacement(replacement)}
+                        disabled={isPreviewing}
+                      >
+                        <Search className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => removeTextReplacement(index)}
+                        className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
                 ))}
               </div>
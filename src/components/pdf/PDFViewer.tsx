@@ -1,74 +1,162 @@
-import React, { useState, useEffect } from 'react';
-import { Document, Page, pdfjs } from 'react-pdf';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Document } from 'react-pdf';
+import { saveAs } from 'file-saver';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw, Loader2 } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw, Loader2, Type, X, LayoutGrid, File, Rows3, BookOpen, ChevronDown, ScanSearch, Search, Copy, FileText, ClipboardCopy, ListTree } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { pdfApi, handleApiError } from '@/api/pdf';
+import { usePdfPreview } from '@/hooks/use-pdf-api';
+import { handleApiError, PDFPageOperation } from '@/api/pdf';
+import { getAuthHeaders } from '@/api/client';
+import { readPageSizes, readPageText, type PageSize } from '@/lib/pdfjs';
+import { applyPageOperation } from '@/lib/pageOperations';
+import type { TextMatch } from '@/lib/textSearch';
+import { PageView } from './PageView';
+import { ScrollView, ROW_GAP, type ViewMode } from './ScrollView';
+import { ThumbnailRail } from './ThumbnailRail';
+import { PageOrganizer } from './PageOrganizer';
+import { SearchPanel } from './SearchPanel';
+import { OutlinePanel } from './OutlinePanel';
+import { PDFFile, PDFEdits, PageEntry, TextOverlay, getLayoutPosition, getPageLayout } from './types';
 
-// Set up PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+type FitMode = 'width' | 'page';
 
-interface PDFFile {
-  file: File;
-  url: string;
-  fileId?: string;
-  metadata?: any;
-  edits?: any;
-}
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+const ZOOM_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+// Room left beside the page(s) when fitting, so a fitted page does not touch the scrollbar
+const FIT_MARGIN = 24;
+
+// US Letter, the size the local writer gives blank pages without a neighbour to copy
+const BLANK_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+
+const clampScale = (value: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, value));
+
+/**
+ * Scale at which the given pages fit the viewport's width, or all of it
+ */
+const getFitScale = (
+  fitMode: FitMode,
+  sizes: PageSize[],
+  rotation: number,
+  viewport: { width: number; height: number },
+) => {
+  const sideways = rotation % 180 !== 0;
+  const width = sizes.reduce((sum, size) => sum + (sideways ? size.height : size.width), 0);
+  const height = Math.max(...sizes.map(size => (sideways ? size.width : size.height)));
+  const byWidth = (viewport.width - FIT_MARGIN - ROW_GAP * (sizes.length - 1)) / width;
+  return fitMode === 'width' ? byWidth : Math.min(byWidth, (viewport.height - FIT_MARGIN) / height);
+};
 
 interface PDFViewerProps {
   file: PDFFile;
   currentPage: number;
   numPages: number;
+  scale: number;
   onPageChange: (page: number) => void;
-  onDocumentLoadSuccess: (pdf: any) => void;
+  onScaleChange: (scale: number) => void;
+  onDocumentLoadSuccess: (pdf: PDFDocumentProxy) => void;
+  onEditsUpdate: (edits: PDFEdits, label?: string) => void;
+  highlights?: TextMatch[];
+  onClearHighlights?: () => void;
+  /** Receives the hits of the document search so they are highlighted like any other matches */
+  onHighlightsChange?: (matches: TextMatch[]) => void;
+  onOpenDocument: (file: File, fileId: string) => void;
 }
 
 export const PDFViewer: React.FC<PDFViewerProps> = ({
   file,
   currentPage,
   numPages,
+  scale,
   onPageChange,
+  onScaleChange,
   onDocumentLoadSuccess,
+  onEditsUpdate,
+  highlights = [],
+  onClearHighlights,
+  onHighlightsChange,
+  onOpenDocument,
 }) => {
-  const [scale, setScale] = useState(1.0);
   const [rotation, setRotation] = useState(0);
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  const [pageSizes, setPageSizes] = useState<PageSize[] | null>(null);
+  const [fitMode, setFitMode] = useState<FitMode | null>(null);
+  const [viewportSize, setViewportSize] = useState<{ width: number; height: number } | null>(null);
+  const [isMarqueeZoom, setIsMarqueeZoom] = useState(false);
+  const [isPlacingText, setIsPlacingText] = useState(false);
+  const [isOrganizing, setIsOrganizing] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+  const [activeMatch, setActiveMatch] = useState<TextMatch | null>(null);
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [isExportingText, setIsExportingText] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const { toast } = useToast();
 
-  // Load preview from backend when fileId is available
+  // Preview from the backend when the file has been uploaded; cached per fileId
+  const preview = usePdfPreview(file.fileId);
+  const previewUrl = preview.data?.previewUrl;
+  const documentUrl = previewUrl || file.url;
+  // react-pdf reloads the document whenever its options change identity, so they follow the token only
+  const authorization = getAuthHeaders(documentUrl).Authorization;
+  const documentOptions = useMemo(
+    () => ({ httpHeaders: authorization ? { Authorization: authorization } : {} }),
+    [authorization]
+  );
+  const isLoadingPreview = preview.isLoading;
+
   useEffect(() => {
-    const loadPreview = async () => {
-      if (file.fileId && !previewUrl) {
-        setIsLoadingPreview(true);
-        try {
-          const previewResult = await pdfApi.preview(file.fileId);
-          setPreviewUrl(previewResult.previewUrl);
-        } catch (error) {
-          const errorInfo = handleApiError(error);
-          toast({
-            title: "Preview failed",
-            description: errorInfo.message,
-            variant: "destructive",
-          });
-          console.error('Preview error:', error);
-        } finally {
-          setIsLoadingPreview(false);
-        }
+    if (!preview.error) return;
+    const errorInfo = handleApiError(preview.error);
+    toast({
+      title: "Preview failed",
+      description: errorInfo.message,
+      variant: "destructive",
+    });
+    console.error('Preview error:', preview.error);
+  }, [preview.error, toast]);
+
+  // Ctrl/Cmd+F searches the document instead of only the rendered part of the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setIsOrganizing(false);
+        setIsSearchOpen(true);
+        setSearchFocusRequest(prev => prev + 1);
       }
     };
 
-    loadPreview();
-  }, [file.fileId, previewUrl, toast]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSearchMatchesChange = useCallback((matches: TextMatch[]) => {
+    onHighlightsChange?.(matches);
+  }, [onHighlightsChange]);
 
-  const handleDocumentLoadSuccess = (pdf: any) => {
+  const handleDocumentLoadSuccess = (pdf: PDFDocumentProxy) => {
     setLoading(false);
+    setPdfDocument(pdf);
     onDocumentLoadSuccess(pdf);
+    // Scrolling views lay out every page up front, before any of them renders
+    setPageSizes(null);
+    readPageSizes(pdf)
+      .then(setPageSizes)
+      .catch(error => console.error('Page size error:', error));
     toast({
       title: "PDF loaded successfully",
       description: `Document has ${pdf.numPages} pages.`,
@@ -85,6 +173,54 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     console.error('PDF load error:', error);
   };
 
+  const handleOverlaysChange = (textOverlays: TextOverlay[], label: string) => {
+    onEditsUpdate({ ...file.edits, textOverlays }, label);
+  };
+
+  // The view shows the organized document: `currentPage` is a position in this layout, while text,
+  // search hits, links and bookmarks refer to pages of the uploaded file
+  const pageLayout = getPageLayout(file.edits, numPages);
+  const pageCount = pageLayout.length;
+  const currentSourcePage = pageLayout[currentPage - 1]?.sourcePage ?? null;
+
+  useEffect(() => {
+    if (pageCount > 0 && currentPage > pageCount) {
+      onPageChange(pageCount);
+    }
+  }, [currentPage, pageCount, onPageChange]);
+
+  const showSourcePage = (sourcePage: number) => {
+    const position = getLayoutPosition(pageLayout, sourcePage, currentPage);
+    if (position) onPageChange(position);
+  };
+
+  const handleActiveMatchChange = (match: TextMatch | null) => {
+    setActiveMatch(match);
+    if (match) showSourcePage(match.page);
+  };
+
+  // Sizes of the pages as laid out, with their permanent rotation applied
+  const layoutSizes = pageSizes ? pageLayout.map(entry => {
+    const size = entry.sourcePage === null ? BLANK_PAGE_SIZE : pageSizes[entry.sourcePage - 1];
+    return (entry.rotation || 0) % 180 !== 0 ? { width: size.height, height: size.width } : size;
+  }) : null;
+
+  const handlePageOperation = (operation: PDFPageOperation, label: string) => {
+    onEditsUpdate({
+      ...file.edits,
+      pages: applyPageOperation(pageLayout, operation),
+      pageOperations: [...(file.edits?.pageOperations || []), operation],
+    }, label);
+  };
+
+  const handlePagesReorder = (pages: PageEntry[]) => {
+    const positions = new Map(pageLayout.map((entry, index) => [entry.id, index + 1]));
+    handlePageOperation(
+      { pageOrder: pages.map(entry => positions.get(entry.id)), action: 'reorder_pages' },
+      'Reorder pages'
+    );
+  };
+
   const goToPrevPage = () => {
     if (currentPage > 1) {
       onPageChange(currentPage - 1);
@@ -92,30 +228,138 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
   };
 
   const goToNextPage = () => {
-    if (currentPage < numPages) {
+    if (currentPage < pageCount) {
       onPageChange(currentPage + 1);
     }
   };
 
   const handlePageInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const page = parseInt(e.target.value);
-    if (page >= 1 && page <= numPages) {
+    if (page >= 1 && page <= pageCount) {
       onPageChange(page);
     }
   };
 
+  const setZoom = (value: number) => {
+    setFitMode(null);
+    onScaleChange(clampScale(value));
+  };
+
   const zoomIn = () => {
-    setScale(prev => Math.min(prev + 0.2, 3.0));
+    setZoom(ZOOM_PRESETS.find(preset => preset > scale + 0.001) ?? MAX_SCALE);
   };
 
   const zoomOut = () => {
-    setScale(prev => Math.max(prev - 0.2, 0.5));
+    setZoom([...ZOOM_PRESETS].reverse().find(preset => preset < scale - 0.001) ?? MIN_SCALE);
+  };
+
+  // Fitted zoom follows the viewport size, the rotation and the page(s) on screen
+  const fitPages = viewMode === 'spread'
+    ? [currentPage - ((currentPage - 1) % 2), currentPage - ((currentPage - 1) % 2) + 1]
+    : [currentPage];
+  const fitSizes = layoutSizes ? fitPages.filter(page => page <= layoutSizes.length).map(page => layoutSizes[page - 1]) : [];
+  const fitScale = fitMode && viewportSize && fitSizes.length > 0
+    ? clampScale(getFitScale(fitMode, fitSizes, rotation, viewportSize))
+    : null;
+
+  useEffect(() => {
+    if (fitScale !== null && Math.abs(fitScale - scale) > 0.005) {
+      onScaleChange(fitScale);
+    }
+  }, [fitScale, scale, onScaleChange]);
+
+  const zoomLabel = fitMode === 'width'
+    ? 'Fit Width'
+    : fitMode === 'page' ? 'Fit Page' : `${Math.round(scale * 100)}%`;
+
+  const copyPageText = async () => {
+    if (!pdfDocument) return;
+    try {
+      // Inserted blank pages have no text
+      const text = currentSourcePage === null ? '' : await readPageText(pdfDocument, currentSourcePage);
+      if (!text) {
+        toast({
+          title: "No text on this page",
+          description: "The page may be a scanned image.",
+        });
+        return;
+      }
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Page text copied",
+        description: `Text of page ${currentPage} is on the clipboard.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Could not copy the page text to the clipboard.",
+        variant: "destructive",
+      });
+      console.error('Copy text error:', error);
+    }
+  };
+
+  const exportText = async () => {
+    if (!pdfDocument) return;
+    setIsExportingText(true);
+    try {
+      // Follow the organized layout; blank pages come out empty
+      const pages: string[] = [];
+      for (const entry of pageLayout) {
+        pages.push(entry.sourcePage === null ? '' : await readPageText(pdfDocument, entry.sourcePage));
+      }
+      const baseName = file.file.name.replace(/\.pdf$/i, '');
+      saveAs(new Blob([pages.join('\n\n')], { type: 'text/plain;charset=utf-8' }), `${baseName}.txt`);
+      toast({
+        title: "Text exported",
+        description: `Text of ${pages.length} pages saved as ${baseName}.txt.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Text export failed",
+        description: "Could not read the text of the document.",
+        variant: "destructive",
+      });
+      console.error('Text export error:', error);
+    } finally {
+      setIsExportingText(false);
+    }
   };
 
   const rotate = () => {
     setRotation(prev => (prev + 90) % 360);
   };
 
+  const renderPage = (position: number) => {
+    const entry = pageLayout[position - 1];
+    if (entry.sourcePage === null) {
+      const size = layoutSizes[position - 1];
+      const sideways = rotation % 180 !== 0;
+      return (
+        <div
+          className="shadow-custom-lg rounded-lg bg-white"
+          style={{
+            width: (sideways ? size.height : size.width) * scale,
+            height: (sideways ? size.width : size.height) * scale,
+          }}
+        />
+      );
+    }
+
+    return (
+      <PageView
+        pageNumber={entry.sourcePage}
+        scale={scale}
+        rotation={(rotation + (entry.rotation || 0)) % 360}
+        highlights={highlights}
+        activeHighlight={activeMatch}
+        overlays={file.edits?.textOverlays || []}
+        placingText={isPlacingText}
+        onOverlaysChange={handleOverlaysChange}
+      />
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Toolbar */}
@@ -141,13 +385,13 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
                 id="page-input"
                 type="number"
                 min={1}
-                max={numPages}
+                max={pageCount}
                 value={currentPage}
                 onChange={handlePageInputChange}
                 className="w-16 text-center"
               />
               <span className="text-sm text-muted-foreground">
-                of {numPages}
+                of {pageCount}
               </span>
             </div>
             
@@ -155,7 +399,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
               variant="outline"
               size="sm"
               onClick={goToNextPage}
-              disabled={currentPage >= numPages}
+              disabled={currentPage >= pageCount}
               className="hover:bg-primary hover:text-primary-foreground transition-colors"
             >
               <ChevronRight className="w-4 h-4" />
@@ -168,26 +412,55 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
               variant="outline"
               size="sm"
               onClick={zoomOut}
-              disabled={scale <= 0.5}
+              disabled={scale <= MIN_SCALE}
               className="hover:bg-primary hover:text-primary-foreground transition-colors"
             >
               <ZoomOut className="w-4 h-4" />
             </Button>
             
-            <span className="text-sm font-medium text-foreground min-w-16 text-center">
-              {Math.round(scale * 100)}%
-            </span>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="min-w-24 justify-between">
+                  {zoomLabel}
+                  <ChevronDown className="w-4 h-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="center">
+                <DropdownMenuItem onClick={() => setFitMode('width')}>Fit Width</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setFitMode('page')}>Fit Page</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {ZOOM_PRESETS.map(preset => (
+                  <DropdownMenuItem key={preset} onClick={() => setZoom(preset)}>
+                    {Math.round(preset * 100)}%
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
             
             <Button
               variant="outline"
               size="sm"
               onClick={zoomIn}
-              disabled={scale >= 3.0}
+              disabled={scale >= MAX_SCALE}
               className="hover:bg-primary hover:text-primary-foreground transition-colors"
             >
               <ZoomIn className="w-4 h-4" />
             </Button>
             
+            <Button
+              variant={isMarqueeZoom ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setIsMarqueeZoom(prev => !prev);
+                setIsPlacingText(false);
+              }}
+              disabled={isOrganizing}
+              title="Drag a rectangle to zoom into it"
+              className="hover:bg-primary hover:text-primary-foreground transition-colors"
+            >
+              <ScanSearch className="w-4 h-4" />
+            </Button>
+
             <Button
               variant="outline"
               size="sm"
@@ -196,46 +469,202 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
             >
               <RotateCw className="w-4 h-4" />
             </Button>
+
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={viewMode}
+              onValueChange={(value) => value && setViewMode(value as ViewMode)}
+              disabled={isOrganizing}
+            >
+              <ToggleGroupItem value="single" title="Single page">
+                <File className="w-4 h-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="continuous" title="Continuous scroll">
+                <Rows3 className="w-4 h-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="spread" title="Two-page spread">
+                <BookOpen className="w-4 h-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+
+            <Button
+              variant={isPlacingText ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setIsPlacingText(prev => !prev);
+                setIsMarqueeZoom(false);
+              }}
+              title="Click on the page to add text"
+              className="hover:bg-primary hover:text-primary-foreground transition-colors"
+            >
+              <Type className="w-4 h-4 mr-1" />
+              Add Text
+            </Button>
+
+            <Button
+              variant={isOrganizing ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setIsOrganizing(prev => !prev)}
+              title="Select, rotate, duplicate, delete and extract pages"
+              className="hover:bg-primary hover:text-primary-foreground transition-colors"
+            >
+              <LayoutGrid className="w-4 h-4 mr-1" />
+              Organize
+            </Button>
+
+            <Button
+              variant={isOutlineOpen ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setIsOutlineOpen(prev => !prev)}
+              disabled={isOrganizing}
+              title="Show and edit the document bookmarks"
+              className="hover:bg-primary hover:text-primary-foreground transition-colors"
+            >
+              <ListTree className="w-4 h-4 mr-1" />
+              Outline
+            </Button>
+
+            {onHighlightsChange && (
+              <Button
+                variant={isSearchOpen ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setIsSearchOpen(prev => !prev)}
+                disabled={isOrganizing}
+                title="Search the document (Ctrl+F)"
+                className="hover:bg-primary hover:text-primary-foreground transition-colors"
+              >
+                <Search className="w-4 h-4 mr-1" />
+                Search
+              </Button>
+            )}
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pdfDocument || isExportingText}
+                  title="Copy or export the document text"
+                  className="hover:bg-primary hover:text-primary-foreground transition-colors"
+                >
+                  {isExportingText ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <Copy className="w-4 h-4 mr-1" />
+                  )}
+                  Text
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={copyPageText}>
+                  <ClipboardCopy className="w-4 h-4 mr-2" />
+                  Copy Page Text
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={exportText}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Export All Text (.txt)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            {highlights.length > 0 && onClearHighlights && !isSearchOpen && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onClearHighlights}
+                className="hover:bg-primary hover:text-primary-foreground transition-colors"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Clear {highlights.length} match{highlights.length === 1 ? '' : 'es'}
+              </Button>
+            )}
           </div>
         </div>
       </Card>
 
       {/* PDF Display */}
       <Card className="p-6 bg-pdf-viewer border-0 shadow-custom-md">
-        <div className="flex justify-center">
-          <div className="shadow-custom-lg rounded-lg overflow-hidden">
-            {isLoadingPreview ? (
-              <div className="flex items-center justify-center p-12">
-                <Loader2 className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></Loader2>
-                <span className="ml-3 text-muted-foreground">Loading preview from server...</span>
+        {isLoadingPreview ? (
+          <div className="flex items-center justify-center p-12">
+            <Loader2 className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></Loader2>
+            <span className="ml-3 text-muted-foreground">Loading preview from server...</span>
+          </div>
+        ) : (
+          <Document
+            // A refetched preview may keep its URL while the file behind it changed (e.g. after a save)
+            key={preview.dataUpdatedAt}
+            file={documentUrl}
+            options={documentOptions}
+            onLoadSuccess={handleDocumentLoadSuccess}
+            onLoadError={handleDocumentLoadError}
+            onItemClick={({ pageNumber }) => showSourcePage(pageNumber)}
+            externalLinkTarget="_blank"
+            className="flex gap-4"
+            loading={
+              <div className="flex flex-1 items-center justify-center p-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                <span className="ml-3 text-muted-foreground">Loading PDF...</span>
               </div>
-            ) : (
-              <Document
-                file={previewUrl || file.url}
-                onLoadSuccess={handleDocumentLoadSuccess}
-                onLoadError={handleDocumentLoadError}
-                loading={
-                  <div className="flex items-center justify-center p-12">
-                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-                    <span className="ml-3 text-muted-foreground">Loading PDF...</span>
-                  </div>
-                }
-              >
-                <Page
-                  pageNumber={currentPage}
-                  scale={scale}
-                  rotate={rotation}
-                  loading={
-                    <div className="flex items-center justify-center p-8">
-                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-                    </div>
-                  }
-                  className="pdf-page"
-                />
-              </Document>
+            }
+          >
+            {numPages > 0 && isOrganizing && (
+              <PageOrganizer
+                file={file}
+                pages={pageLayout}
+                onOperation={handlePageOperation}
+                onOpenDocument={onOpenDocument}
+              />
             )}
-          </div>
-        </div>
+            {!isOrganizing && isOutlineOpen && pdfDocument && (
+              <OutlinePanel
+                pdf={pdfDocument}
+                fileId={file.fileId}
+                currentPage={currentSourcePage}
+                onNavigate={showSourcePage}
+                onClose={() => setIsOutlineOpen(false)}
+              />
+            )}
+            {numPages > 0 && !isOrganizing && (
+              <ThumbnailRail
+                pages={pageLayout}
+                currentPage={currentPage}
+                onSelect={onPageChange}
+                onReorder={handlePagesReorder}
+              />
+            )}
+            {!isOrganizing && numPages > 0 && pageSizes?.length !== numPages && (
+              <div className="flex flex-1 items-center justify-center p-12">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            )}
+            {!isOrganizing && pageCount > 0 && pageSizes?.length === numPages && (
+              <ScrollView
+                mode={viewMode}
+                pageSizes={layoutSizes}
+                scale={scale}
+                rotation={rotation}
+                currentPage={currentPage}
+                onPageChange={onPageChange}
+                renderPage={renderPage}
+                onZoom={(factor) => setZoom(scale * factor)}
+                onViewportResize={setViewportSize}
+                marquee={isMarqueeZoom}
+                onMarqueeEnd={() => setIsMarqueeZoom(false)}
+              />
+            )}
+            {!isOrganizing && isSearchOpen && onHighlightsChange && (
+              <SearchPanel
+                source={documentUrl}
+                focusRequest={searchFocusRequest}
+                onMatchesChange={handleSearchMatchesChange}
+                onActiveMatchChange={handleActiveMatchChange}
+                onClose={() => setIsSearchOpen(false)}
+              />
+            )}
+          </Document>
+        )}
       </Card>
 
       {/* File Info */}
@@ -253,7 +682,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
           </div>
           <div>
             <Label className="font-medium text-foreground">Pages:</Label>
-            <p className="text-muted-foreground">{numPages} pages</p>
+            <p className="text-muted-foreground">{pageCount} pages</p>
           </div>
         </div>
       </Card>
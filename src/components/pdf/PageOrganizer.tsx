@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Copy, FileOutput, FilePlus, Loader2, RotateCcw, RotateCw, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { pdfApi, handleApiError, PDFPageOperation } from '@/api/pdf';
+import { PageThumbnail } from './PageThumbnail';
+import { PageEntry, PDFFile } from './types';
+
+interface PageOrganizerProps {
+  file: PDFFile;
+  pages: PageEntry[];
+  onOperation: (operation: PDFPageOperation, label: string) => void;
+  onOpenDocument: (file: File, fileId: string) => void;
+}
+
+const THUMBNAIL_WIDTH = 140;
+
+// Only renders its thumbnail once scrolled into view
+const LazyThumbnail: React.FC<{ entry: PageEntry }> = ({ entry }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(([observed]) => {
+      if (observed.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div
+      ref={ref}
+      className="flex items-center justify-center overflow-hidden rounded bg-white"
+      style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH * 1.35 }}
+    >
+      {visible ? (
+        <PageThumbnail entry={entry} width={THUMBNAIL_WIDTH} />
+      ) : (
+        <div className="w-full h-full animate-pulse bg-muted" />
+      )}
+    </div>
+  );
+};
+
+// Must be rendered inside a react-pdf <Document>
+export const PageOrganizer: React.FC<PageOrganizerProps> = ({
+  file,
+  pages,
+  onOperation,
+  onOpenDocument,
+}) => {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [anchorIndex, setAnchorIndex] = useState<number | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  // Operations address pages by their current 1-based position
+  const selectedPositions = pages
+    .map((entry, index) => (selectedIds.has(entry.id) ? index + 1 : null))
+    .filter((position): position is number => position !== null);
+  const selectedCount = selectedPositions.length;
+
+  const handleToggle = (index: number, e: React.MouseEvent) => {
+    const next = new Set(e.shiftKey || e.metaKey || e.ctrlKey ? selectedIds : []);
+
+    if (e.shiftKey && anchorIndex !== null) {
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      pages.slice(from, to + 1).forEach(entry => next.add(entry.id));
+    } else if (selectedIds.has(pages[index].id) && (e.metaKey || e.ctrlKey || selectedIds.size === 1)) {
+      next.delete(pages[index].id);
+    } else {
+      next.add(pages[index].id);
+    }
+
+    setSelectedIds(next);
+    setAnchorIndex(index);
+  };
+
+  const handleCheckedChange = (entry: PageEntry, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(entry.id);
+    } else {
+      next.delete(entry.id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleRotate = (angle: 90 | 180 | 270) => {
+    onOperation(
+      { pages: selectedPositions, angle, action: 'rotate_pages' },
+      `Rotate ${selectedCount} page(s)`
+    );
+  };
+
+  const handleDuplicate = () => {
+    onOperation(
+      { pages: selectedPositions, action: 'duplicate_pages' },
+      `Duplicate ${selectedCount} page(s)`
+    );
+  };
+
+  const handleDelete = () => {
+    if (selectedCount === pages.length) {
+      toast({
+        title: "Cannot delete every page",
+        description: "A PDF needs at least one page.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onOperation(
+      { pages: selectedPositions, action: 'delete_pages' },
+      `Delete ${selectedCount} page(s)`
+    );
+    setSelectedIds(new Set());
+    setAnchorIndex(null);
+  };
+
+  const handleInsertBlank = () => {
+    // Insert after the last selected page, or at the end when nothing is selected
+    const afterPage = selectedCount > 0 ? selectedPositions[selectedCount - 1] : pages.length;
+    onOperation(
+      { afterPage, count: 1, action: 'insert_blank_pages' },
+      'Insert blank page'
+    );
+  };
+
+  const handleExtract = async () => {
+    if (!file.fileId) {
+      toast({
+        title: "No file ID",
+        description: "Please upload the file first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsExtracting(true);
+    try {
+      const selected = pages.filter(entry => selectedIds.has(entry.id));
+      const result = await pdfApi.extractPages(
+        file.fileId,
+        selected.map(entry => ({ sourcePage: entry.sourcePage, rotation: entry.rotation || 0 }))
+      );
+      const blob = await pdfApi.getFile(result.fileId);
+      const extracted = new File([blob], result.fileName, { type: 'application/pdf' });
+
+      onOpenDocument(extracted, result.fileId);
+      toast({
+        title: "Pages extracted",
+        description: `${result.fileName} was opened with ${selected.length} page(s).`,
+      });
+    } catch (error) {
+      const errorInfo = handleApiError(error);
+      toast({
+        title: "Extract failed",
+        description: errorInfo.message,
+        variant: "destructive",
+      });
+      console.error('Extract error:', error);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 min-w-0 space-y-4">
+      {/* Organizer Actions */}
+      <Card className="p-3 bg-gradient-secondary border-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground mr-2">
+            {selectedCount > 0 ? `${selectedCount} of ${pages.length} selected` : `${pages.length} pages`}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSelectedIds(new Set(selectedCount === pages.length ? [] : pages.map(entry => entry.id)))}
+          >
+            {selectedCount === pages.length ? 'Clear Selection' : 'Select All'}
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={selectedCount === 0}>
+                <RotateCw className="w-4 h-4 mr-1" />
+                Rotate
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={() => handleRotate(90)}>
+                <RotateCw className="w-4 h-4 mr-2" />
+                90° clockwise
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleRotate(180)}>
+                <RotateCw className="w-4 h-4 mr-2" />
+                180°
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleRotate(270)}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                90° counter-clockwise
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button variant="outline" size="sm" onClick={handleDuplicate} disabled={selectedCount === 0}>
+            <Copy className="w-4 h-4 mr-1" />
+            Duplicate
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={handleInsertBlank}>
+            <FilePlus className="w-4 h-4 mr-1" />
+            Insert Blank
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExtract}
+            disabled={selectedCount === 0 || isExtracting}
+          >
+            {isExtracting ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <FileOutput className="w-4 h-4 mr-1" />
+            )}
+            Extract to New PDF
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDelete}
+            disabled={selectedCount === 0}
+            className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+        </div>
+      </Card>
+
+      {/* Page Grid */}
+      <div className="grid gap-4 max-h-[75vh] overflow-y-auto p-1 grid-cols-[repeat(auto-fill,minmax(160px,1fr))]">
+        {pages.map((entry, index) => {
+          const isSelected = selectedIds.has(entry.id);
+
+          return (
+            <div
+              key={entry.id}
+              onClick={(e) => handleToggle(index, e)}
+              className={cn(
+                'relative flex flex-col items-center rounded-lg border-2 p-2 cursor-pointer select-none transition-colors',
+                isSelected ? 'border-primary bg-primary/5' : 'border-transparent hover:border-primary/40'
+              )}
+            >
+              <Checkbox
+                checked={isSelected}
+                onClick={(e) => e.stopPropagation()}
+                onCheckedChange={(checked) => handleCheckedChange(entry, checked === true)}
+                className="absolute top-3 left-3 z-10 bg-background"
+                aria-label={`Select page ${index + 1}`}
+              />
+              <LazyThumbnail entry={entry} />
+              <span className="mt-2 text-xs text-muted-foreground">
+                {index + 1}
+                {entry.sourcePage !== null && entry.sourcePage !== index + 1 && ` (p. ${entry.sourcePage})`}
+                {entry.rotation ? ` · ${entry.rotation}°` : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Page } from 'react-pdf';
+import { PageEntry } from './types';
+
+interface PageThumbnailProps {
+  entry: PageEntry;
+  width: number;
+}
+
+// Letter-sized placeholder for inserted blank pages
+const BLANK_PAGE_RATIO = 11 / 8.5;
+
+// Must be rendered inside a react-pdf <Document>
+export const PageThumbnail: React.FC<PageThumbnailProps> = ({ entry, width }) => {
+  const rotation = entry.rotation || 0;
+  const sideways = rotation % 180 !== 0;
+
+  if (entry.sourcePage === null) {
+    return (
+      <div
+        className="flex items-center justify-center bg-white text-xs text-muted-foreground"
+        style={{ width, height: sideways ? width / BLANK_PAGE_RATIO : width * BLANK_PAGE_RATIO }}
+      >
+        Blank
+      </div>
+    );
+  }
+
+  // Sideways pages are sized by height so they still fit the thumbnail width once rotated
+  return (
+    <div style={{ transform: rotation ? `rotate(${rotation}deg)` : undefined }}>
+      <Page
+        pageNumber={entry.sourcePage}
+        width={sideways ? undefined : width}
+        height={sideways ? width : undefined}
+        renderTextLayer={false}
+        renderAnnotationLayer={false}
+        loading={<div className="animate-pulse bg-muted" style={{ width, height: width * BLANK_PAGE_RATIO }} />}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { Page } from 'react-pdf';
+import 'react-pdf/dist/Page/TextLayer.css';
+import 'react-pdf/dist/Page/AnnotationLayer.css';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextMatch } from '@/lib/textSearch';
+import { OverlayLayer } from './OverlayLayer';
+import { HighlightLayer } from './HighlightLayer';
+import type { TextOverlay } from './types';
+
+interface PageViewProps {
+  pageNumber: number;
+  scale: number;
+  rotation: number;
+  highlights: TextMatch[];
+  /** Highlight drawn emphasized, e.g. the current search hit */
+  activeHighlight?: TextMatch | null;
+  overlays: TextOverlay[];
+  placingText: boolean;
+  onOverlaysChange: (overlays: TextOverlay[], label: string) => void;
+}
+
+// A rendered page with its selectable text, annotations, highlights and overlays; must be rendered inside a react-pdf <Document>
+export const PageView: React.FC<PageViewProps> = ({
+  pageNumber,
+  scale,
+  rotation,
+  highlights,
+  activeHighlight,
+  overlays,
+  placingText,
+  onOverlaysChange,
+}) => {
+  const [page, setPage] = useState<PDFPageProxy | null>(null);
+
+  // Viewport shared with the overlay layer so clicks map to PDF user space
+  const viewport = useMemo(
+    () => page?.getViewport({ scale, rotation }),
+    [page, scale, rotation]
+  );
+  const isLoaded = viewport && page?.pageNumber === pageNumber;
+
+  return (
+    <div className="shadow-custom-lg rounded-lg overflow-hidden">
+      <Page
+        pageNumber={pageNumber}
+        scale={scale}
+        rotate={rotation}
+        onLoadSuccess={setPage}
+        loading={
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        }
+        className="pdf-page"
+      >
+        {isLoaded && (
+          <HighlightLayer
+            viewport={viewport}
+            pageNumber={pageNumber}
+            matches={highlights}
+            activeMatch={activeHighlight}
+          />
+        )}
+        {isLoaded && (
+          <OverlayLayer
+            viewport={viewport}
+            pageNumber={pageNumber}
+            overlays={overlays}
+            placing={placingText}
+            onOverlaysChange={onOverlaysChange}
+          />
+        )}
+      </Page>
+    </div>
+  );
+};
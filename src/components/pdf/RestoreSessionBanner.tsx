@@ -0,0 +1,62 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, Trash2 } from 'lucide-react';
+import { pdfUtils } from '@/api/pdf';
+import type { StoredSession } from '@/lib/sessionStore';
+
+interface RestoreSessionBannerProps {
+  session: StoredSession;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const RestoreSessionBanner: React.FC<RestoreSessionBannerProps> = ({
+  session,
+  onRestore,
+  onDiscard,
+}) => {
+  const editCount = session.documents.reduce(
+    (total, document) =>
+      total +
+      (document.edits.textOverlays?.length || 0) +
+      (document.edits.textReplacements?.length || 0) +
+      (document.edits.pageOperations?.length || 0),
+    0
+  );
+  const totalSize = session.documents.reduce((total, document) => total + document.file.size, 0);
+  const description = session.documents.length === 1
+    ? session.documents[0].file.name
+    : `${session.documents.length} documents`;
+
+  return (
+    <Card className="p-4 mb-6 bg-gradient-secondary border-0 shadow-custom-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <History className="w-6 h-6 text-primary" />
+          <div>
+            <h3 className="font-semibold text-foreground">Restore your previous session?</h3>
+            <p className="text-sm text-muted-foreground">
+              {description} ({pdfUtils.formatFileSize(totalSize)}) with {editCount} unsaved edit(s),
+              last saved {formatDistanceToNow(session.savedAt, { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={onDiscard}
+            className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Discard
+          </Button>
+          <Button onClick={onRestore} className="bg-gradient-primary hover:shadow-custom-glow transition-all">
+            Restore Session
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
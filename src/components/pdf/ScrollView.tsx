@@ -0,0 +1,320 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { PageSize } from '@/lib/pdfjs';
+
+export type ViewMode = 'single' | 'continuous' | 'spread';
+
+/** Point in the viewport (px from its top-left corner) that should stay put while zooming */
+interface ZoomOrigin {
+  x: number;
+  y: number;
+  /** Where the point should end up instead, e.g. the center for marquee zoom */
+  targetX?: number;
+  targetY?: number;
+}
+
+interface ScrollViewProps {
+  mode: ViewMode;
+  /** Unrotated page sizes in points, one per page */
+  pageSizes: PageSize[];
+  scale: number;
+  rotation: number;
+  currentPage: number;
+  onPageChange: (page: number) => void;
+  renderPage: (pageNumber: number) => React.ReactNode;
+  /** Ctrl+wheel, trackpad pinch and marquee zoom; the factor is relative to the current scale */
+  onZoom: (factor: number) => void;
+  onViewportResize?: (size: { width: number; height: number }) => void;
+  /** Drag a rectangle to zoom into it */
+  marquee?: boolean;
+  onMarqueeEnd?: () => void;
+}
+
+type Row = {
+  pages: number[];
+  top: number;
+  height: number;
+  width: number;
+};
+
+type Marquee = { startX: number; startY: number; x: number; y: number };
+
+export const ROW_GAP = 16;
+// Smaller drags are treated as a click on the marquee tool
+const MIN_MARQUEE_SIZE = 8;
+// Per wheel event; trackpad pinches send many small deltas, mouse wheels a few large ones
+const MAX_WHEEL_DELTA = 10;
+
+// Rows are laid out from page sizes so scroll height is right before any page has rendered
+const layoutRows = (
+  pageSizes: PageSize[],
+  mode: ViewMode,
+  scale: number,
+  rotation: number,
+  currentPage: number,
+): Row[] => {
+  const sideways = rotation % 180 !== 0;
+  const sizes = pageSizes.map(size => ({
+    width: (sideways ? size.height : size.width) * scale,
+    height: (sideways ? size.width : size.height) * scale,
+  }));
+
+  const groups = mode === 'single'
+    ? [[currentPage]]
+    : Array.from(
+        { length: Math.ceil(sizes.length / (mode === 'spread' ? 2 : 1)) },
+        (_, row) => (mode === 'spread' ? [row * 2 + 1, row * 2 + 2] : [row + 1]).filter(page => page <= sizes.length)
+      );
+
+  const rows: Row[] = [];
+  let top = 0;
+  for (const pages of groups) {
+    const height = Math.max(...pages.map(page => sizes[page - 1].height));
+    const width = pages.reduce((sum, page) => sum + sizes[page - 1].width, 0) + ROW_GAP * (pages.length - 1);
+    rows.push({ pages, top, height, width });
+    top += height + ROW_GAP;
+  }
+  return rows;
+};
+
+const visibleHeight = (row: Row, scrollTop: number, viewportHeight: number) =>
+  Math.max(0, Math.min(row.top + row.height, scrollTop + viewportHeight) - Math.max(row.top, scrollTop));
+
+const scrollToPage = (container: HTMLElement, rows: Row[], page: number) => {
+  const row = rows.find(candidate => candidate.pages.includes(page));
+  if (row) {
+    container.scrollTop = row.top;
+  }
+};
+
+// Scrolling page view: one page, all pages in a column, or two side by side. Only rows near the
+// viewport are rendered, and zooming keeps the point under the cursor (or the top of the view) in place.
+export const ScrollView: React.FC<ScrollViewProps> = ({
+  mode,
+  pageSizes,
+  scale,
+  rotation,
+  currentPage,
+  onPageChange,
+  renderPage,
+  onZoom,
+  onViewportResize,
+  marquee = false,
+  onMarqueeEnd,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, height: 0 });
+  const [marqueeRect, setMarqueeRect] = useState<Marquee | null>(null);
+  // Page last reported through onPageChange, to tell our own updates apart from navigation elsewhere
+  const reportedPageRef = useRef(currentPage);
+  // Scroll position before a layout change; by the time the new layout renders the browser may have clamped it
+  const positionRef = useRef({ top: 0, left: 0, width: 0 });
+  const zoomOriginRef = useRef<ZoomOrigin | null>(null);
+
+  const rows = useMemo(
+    () => layoutRows(pageSizes, mode, scale, rotation, currentPage),
+    [pageSizes, mode, scale, rotation, currentPage]
+  );
+  const totalHeight = rows.length > 0 ? rows[rows.length - 1].top + rows[rows.length - 1].height : 0;
+  const totalWidth = Math.max(0, ...rows.map(row => row.width));
+  const rowOfPage = useCallback(
+    (page: number) => rows.findIndex(row => row.pages.includes(page)),
+    [rows]
+  );
+  // Latest layout, for effects that scroll to a page without re-running on every layout change
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const { scrollTop, scrollLeft, clientHeight, clientWidth } = container;
+    setScroll({ top: scrollTop, height: clientHeight });
+    positionRef.current = { top: scrollTop, left: scrollLeft, width: clientWidth };
+
+    // The current page is the one taking up most of the viewport; earlier pages win ties
+    let bestRow = -1;
+    let bestArea = 0;
+    rows.forEach((row, index) => {
+      const area = visibleHeight(row, scrollTop, clientHeight);
+      if (area > bestArea) {
+        bestRow = index;
+        bestArea = area;
+      }
+    });
+    if (bestRow < 0) return;
+
+    const currentRow = rows[rowOfPage(reportedPageRef.current)];
+    if (currentRow && visibleHeight(currentRow, scrollTop, clientHeight) >= bestArea) return;
+
+    const page = rows[bestRow].pages[0];
+    if (page !== reportedPageRef.current) {
+      reportedPageRef.current = page;
+      onPageChange(page);
+    }
+  }, [rows, rowOfPage, onPageChange]);
+  const handleScrollRef = useRef(handleScroll);
+  handleScrollRef.current = handleScroll;
+
+  // Keep the zoom origin over the same spot of the same page when zoom, rotation or mode change the layout
+  const previousRowsRef = useRef(rows);
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || previousRowsRef.current === rows) return;
+    const previousRows = previousRowsRef.current;
+    previousRowsRef.current = rows;
+
+    const { top, left, width } = positionRef.current;
+    const origin = zoomOriginRef.current ?? { x: width / 2, y: 0 };
+    zoomOriginRef.current = null;
+
+    const contentWidth = (layout: Row[]) => Math.max(width, ...layout.map(row => row.width));
+    const pointY = top + origin.y;
+    const pointX = left + origin.x;
+    const previous = previousRows.find(row => row.top + row.height + ROW_GAP > pointY) ?? previousRows[previousRows.length - 1];
+    const target = previous && rows[rowOfPage(previous.pages[0])];
+    if (!previous || !target) return;
+
+    const previousLeft = (contentWidth(previousRows) - previous.width) / 2;
+    const targetLeft = (contentWidth(rows) - target.width) / 2;
+    const fractionY = (pointY - previous.top) / previous.height;
+    const fractionX = previous.width > 0 ? (pointX - previousLeft) / previous.width : 0.5;
+
+    container.scrollTop = target.top + fractionY * target.height - (origin.targetY ?? origin.y);
+    container.scrollLeft = targetLeft + fractionX * target.width - (origin.targetX ?? origin.x);
+    handleScrollRef.current();
+  }, [rows, rowOfPage]);
+
+  // Navigation from the toolbar or thumbnails scrolls the page into view
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || currentPage === reportedPageRef.current) return;
+    reportedPageRef.current = currentPage;
+    // Only navigation should scroll; layout changes keep their own anchor
+    scrollToPage(container, rowsRef.current, currentPage);
+  }, [currentPage]);
+
+  // Start at the current page, then measure the viewport whenever it is resized
+  const onViewportResizeRef = useRef(onViewportResize);
+  onViewportResizeRef.current = onViewportResize;
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    scrollToPage(container, rowsRef.current, reportedPageRef.current);
+    handleScrollRef.current();
+
+    const observer = new ResizeObserver(() => {
+      handleScrollRef.current();
+      onViewportResizeRef.current?.({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Ctrl+wheel and trackpad pinch (which browsers report as a wheel event with ctrlKey); the listener
+  // is registered by hand because React's wheel listener is passive and cannot prevent page zoom
+  const onZoomRef = useRef(onZoom);
+  onZoomRef.current = onZoom;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      const bounds = container.getBoundingClientRect();
+      // Firefox reports mouse wheels in lines rather than pixels
+      const pixels = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+      const delta = Math.max(-MAX_WHEEL_DELTA, Math.min(MAX_WHEEL_DELTA, pixels));
+      zoomOriginRef.current = { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+      onZoomRef.current(Math.exp(-delta * 0.01));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const toContentPoint = (event: React.PointerEvent) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+  };
+
+  const handleMarqueeDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toContentPoint(event);
+    setMarqueeRect({ startX: x, startY: y, x, y });
+  };
+
+  const handleMarqueeMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!marqueeRect) return;
+    const { x, y } = toContentPoint(event);
+    setMarqueeRect({ ...marqueeRect, x, y });
+  };
+
+  const handleMarqueeUp = () => {
+    const container = containerRef.current;
+    if (!marqueeRect || !container) return;
+    setMarqueeRect(null);
+    onMarqueeEnd?.();
+
+    const width = Math.abs(marqueeRect.x - marqueeRect.startX);
+    const height = Math.abs(marqueeRect.y - marqueeRect.startY);
+    const centerX = (marqueeRect.x + marqueeRect.startX) / 2 - container.scrollLeft;
+    const centerY = (marqueeRect.y + marqueeRect.startY) / 2 - container.scrollTop;
+    const { clientWidth, clientHeight } = container;
+
+    // Fit the rectangle into the viewport; a click zooms in one step around the point
+    const factor = width < MIN_MARQUEE_SIZE || height < MIN_MARQUEE_SIZE
+      ? 2
+      : Math.min(clientWidth / width, clientHeight / height);
+    zoomOriginRef.current = { x: centerX, y: centerY, targetX: clientWidth / 2, targetY: clientHeight / 2 };
+    onZoom(factor);
+  };
+
+  // Render a viewport's worth of rows above and below what is visible
+  const overscan = scroll.height;
+  const visibleRows = rows.filter(
+    row => row.top + row.height >= scroll.top - overscan && row.top <= scroll.top + scroll.height + overscan
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="relative flex-1 min-w-0 h-[75vh] overflow-auto"
+    >
+      <div className="relative" style={{ height: totalHeight, minWidth: totalWidth }}>
+        {visibleRows.map(row => (
+          <div
+            key={row.pages.join('-')}
+            className="absolute inset-x-0 flex justify-center items-start gap-4"
+            style={{ top: row.top, height: row.height }}
+          >
+            {row.pages.map(pageNumber => (
+              <React.Fragment key={pageNumber}>{renderPage(pageNumber)}</React.Fragment>
+            ))}
+          </div>
+        ))}
+
+        {marquee && (
+          <div
+            className="absolute inset-0 z-20 cursor-zoom-in"
+            onPointerDown={handleMarqueeDown}
+            onPointerMove={handleMarqueeMove}
+            onPointerUp={handleMarqueeUp}
+          >
+            {marqueeRect && (
+              <div
+                className="absolute border-2 border-dashed border-primary bg-primary/10"
+                style={{
+                  left: Math.min(marqueeRect.x, marqueeRect.startX),
+                  top: Math.min(marqueeRect.y, marqueeRect.startY),
+                  width: Math.abs(marqueeRect.x - marqueeRect.startX),
+                  height: Math.abs(marqueeRect.y - marqueeRect.startY),
+                }}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
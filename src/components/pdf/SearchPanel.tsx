@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { ChevronDown, ChevronUp, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useDocumentSearch, type SearchHit } from '@/hooks/use-document-search';
+import type { TextMatch, TextMatchOptions } from '@/lib/textSearch';
+
+interface SearchPanelProps {
+  /** URL of the PDF being viewed */
+  source: string;
+  /** Bumped by the viewer to move focus back into the search box, e.g. on Ctrl+F */
+  focusRequest: number;
+  onMatchesChange: (matches: TextMatch[]) => void;
+  onActiveMatchChange: (match: TextMatch | null) => void;
+  onClose: () => void;
+}
+
+// Pause after typing before searching; re-runs while indexing are debounced the same way
+const SEARCH_DELAY = 200;
+
+// Side panel searching the whole document, listing hits by page with their context
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  source,
+  focusRequest,
+  onMatchesChange,
+  onActiveMatchChange,
+  onClose,
+}) => {
+  const { hits, truncated, error, isSearching, indexed, total, isIndexing, search } = useDocumentSearch(source);
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<TextMatchOptions>({ matchCase: false, wholeWord: false, regex: false });
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeHitRef = useRef<SearchHit | null>(null);
+  // Latest viewer callbacks, so the effects below run on their own triggers rather than on every render
+  const callbacksRef = useRef({ onMatchesChange, onActiveMatchChange });
+
+  // Updated in place so the unmount cleanup, which holds on to the object, also sees the latest ones
+  useEffect(() => {
+    callbacksRef.current.onMatchesChange = onMatchesChange;
+    callbacksRef.current.onActiveMatchChange = onActiveMatchChange;
+  });
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  // Search again as more pages are indexed so early results are not stale
+  useEffect(() => {
+    const timer = setTimeout(() => search(query, options), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [query, options, indexed, search]);
+
+  const selectHit = useCallback((hit: SearchHit | null) => {
+    activeHitRef.current = hit;
+    callbacksRef.current.onActiveMatchChange(hit);
+  }, []);
+
+  // Keep the current hit when results are refreshed (e.g. as indexing progresses) instead of jumping back to the first
+  useEffect(() => {
+    callbacksRef.current.onMatchesChange(hits);
+    const previous = activeHitRef.current;
+    const kept = previous
+      ? hits.findIndex(hit => hit.page === previous.page && hit.index === previous.index)
+      : -1;
+    const index = kept >= 0 ? kept : hits.length > 0 ? 0 : -1;
+    setActiveIndex(index);
+    selectHit(hits[index] ?? null);
+  }, [hits, selectHit]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-hit="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  // Clear highlights when the panel closes
+  useEffect(() => {
+    const callbacks = callbacksRef.current;
+    return () => {
+      callbacks.onMatchesChange([]);
+      callbacks.onActiveMatchChange(null);
+    };
+  }, []);
+
+  const activate = (index: number) => {
+    setActiveIndex(index);
+    selectHit(hits[index] ?? null);
+  };
+
+  const step = (delta: number) => {
+    if (hits.length === 0) return;
+    activate((activeIndex + delta + hits.length) % hits.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const toggleOption = (key: keyof TextMatchOptions) => (pressed: boolean) =>
+    setOptions(prev => ({ ...prev, [key]: pressed }));
+
+  const status = error
+    ? error
+    : !query
+      ? 'Type to search the whole document'
+      : hits.length === 0
+        ? (isSearching ? 'Searching...' : 'No matches')
+        : `${activeIndex + 1} of ${hits.length}${truncated ? '+' : ''} matches`;
+
+  // Hits grouped under a heading per page, keeping their position in the flat list for navigation
+  const groups: { page: number; hits: { hit: SearchHit; index: number }[] }[] = [];
+  hits.forEach((hit, index) => {
+    const group = groups[groups.length - 1];
+    if (group?.page === hit.page) {
+      group.hits.push({ hit, index });
+    } else {
+      groups.push({ page: hit.page, hits: [{ hit, index }] });
+    }
+  });
+
+  return (
+    <div className="w-72 shrink-0 flex flex-col h-[75vh] rounded-lg border border-border bg-card">
+      <div className="p-3 space-y-2 border-b border-border">
+        <div className="flex items-center gap-1">
+          <Input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search document"
+            className="h-8"
+          />
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onClose} title="Close search">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1">
+            <Toggle size="sm" pressed={options.matchCase} onPressedChange={toggleOption('matchCase')} title="Match case">
+              Aa
+            </Toggle>
+            <Toggle size="sm" pressed={options.wholeWord} onPressedChange={toggleOption('wholeWord')} title="Whole word">
+              <span className="underline">ab</span>
+            </Toggle>
+            <Toggle size="sm" pressed={options.regex} onPressedChange={toggleOption('regex')} title="Regular expression">
+              .*
+            </Toggle>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => step(-1)}
+              disabled={hits.length === 0}
+              title="Previous match (Shift+Enter)"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => step(1)}
+              disabled={hits.length === 0}
+              title="Next match (Enter)"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <p className={cn('text-xs', error ? 'text-destructive' : 'text-muted-foreground')}>{status}</p>
+        {isIndexing && total > 0 && (
+          <p className="flex items-center text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            Indexing page {indexed} of {total}
+          </p>
+        )}
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2 space-y-3">
+        {groups.map(group => (
+          <div key={group.page}>
+            <h4 className="px-2 text-xs font-semibold text-muted-foreground">Page {group.page}</h4>
+            <ol className="mt-1 space-y-1">
+              {group.hits.map(({ hit, index }) => (
+                <li key={index}>
+                  <button
+                    type="button"
+                    data-hit={index}
+                    onClick={() => activate(index)}
+                    className={cn(
+                      'w-full rounded-md px-2 py-1 text-left text-xs transition-colors hover:bg-accent',
+                      index === activeIndex && 'bg-accent'
+                    )}
+                  >
+                    <span className="text-muted-foreground">{hit.before}</span>
+                    <mark className="bg-yellow-300/70 text-foreground rounded-sm">{hit.text}</mark>
+                    <span className="text-muted-foreground">{hit.after}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+        {truncated && (
+          <p className="px-2 text-xs text-muted-foreground">Only the first {hits.length} matches are listed.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { Document } from 'react-pdf';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Archive, FileText, Loader2, Scissors } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import { useToast } from '@/hooks/use-toast';
+import { pdfApi, handleApiError } from '@/api/pdf';
+import { loadPdfDocument, readTopLevelOutline } from '@/lib/pdfjs';
+import { parsePageRangeGroups } from '@/lib/pageRanges';
+import { PageThumbnail } from './PageThumbnail';
+import { PDFFile } from './types';
+
+interface SplitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: PDFFile;
+  numPages: number;
+}
+
+type SplitMode = 'ranges' | 'every' | 'outline';
+type DownloadMode = 'separate' | 'zip';
+
+interface SplitPart {
+  title: string;
+  pages: number[];
+}
+
+const PREVIEW_WIDTH = 56;
+// Thumbnails shown per part; the rest are summarized
+const PREVIEW_PAGES_PER_PART = 4;
+
+const pageSequence = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+export const SplitDialog: React.FC<SplitDialogProps> = ({
+  open,
+  onOpenChange,
+  file,
+  numPages,
+}) => {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<SplitMode>('ranges');
+  const [rangeExpression, setRangeExpression] = useState('');
+  const [everyN, setEveryN] = useState('1');
+  const [outline, setOutline] = useState<{ title: string; pageNumber: number }[] | null>(null);
+  const [downloadMode, setDownloadMode] = useState<DownloadMode>('zip');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // The outline is only read once the bookmarks split is chosen
+  useEffect(() => {
+    if (!open || mode !== 'outline' || outline) return;
+
+    const readOutline = async () => {
+      const pdf = await loadPdfDocument(file.url);
+      try {
+        return await readTopLevelOutline(pdf);
+      } finally {
+        pdf.destroy();
+      }
+    };
+
+    readOutline()
+      .then(setOutline)
+      .catch(error => {
+        console.error('Outline load error:', error);
+        setOutline([]);
+      });
+  }, [open, mode, outline, file.url]);
+
+  const getParts = (): SplitPart[] => {
+    switch (mode) {
+      case 'ranges':
+        return parsePageRangeGroups(rangeExpression, numPages).map(pages => ({
+          title: pages.length === 1 ? `Page ${pages[0]}` : `Pages ${pages[0]}-${pages[pages.length - 1]}`,
+          pages,
+        }));
+
+      case 'every': {
+        const size = parseInt(everyN);
+        if (!size || size < 1) {
+          throw new Error('Enter a page count of at least 1.');
+        }
+        return Array.from({ length: Math.ceil(numPages / size) }, (_, i) => {
+          const pages = pageSequence(i * size + 1, Math.min((i + 1) * size, numPages));
+          return { title: `Pages ${pages[0]}-${pages[pages.length - 1]}`, pages };
+        });
+      }
+
+      case 'outline': {
+        if (!outline) return [];
+        if (outline.length === 0) {
+          throw new Error('This document has no bookmarks to split at.');
+        }
+
+        const starts = [...outline].sort((a, b) => a.pageNumber - b.pageNumber)
+          .filter((entry, index, sorted) => index === 0 || entry.pageNumber !== sorted[index - 1].pageNumber);
+        // Pages before the first bookmark become their own part
+        const sections = starts[0].pageNumber > 1 ? [{ title: 'Front matter', pageNumber: 1 }, ...starts] : starts;
+        return sections.map((entry, index) => ({
+          title: entry.title,
+          pages: pageSequence(entry.pageNumber, (sections[index + 1]?.pageNumber ?? numPages + 1) - 1),
+        }));
+      }
+    }
+  };
+
+  let parts: SplitPart[] = [];
+  let partsError: string | null = null;
+  try {
+    parts = getParts();
+  } catch (error) {
+    partsError = (error as Error).message;
+  }
+
+  const baseName = file.file.name.replace(/\.pdf$/i, '');
+
+  const handleSplit = async () => {
+    if (!file.fileId) {
+      toast({
+        title: "No file ID",
+        description: "Cannot split without a file ID. Please re-upload the file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setProgress({ done: 0, total: downloadMode === 'zip' ? 1 : parts.length });
+    try {
+      if (downloadMode === 'zip') {
+        const archive = await pdfApi.exportFile(file.fileId, {
+          format: 'pdf',
+          quality: 'high',
+          metadata: file.metadata,
+          parts: parts.map(part => part.pages),
+        });
+        saveAs(archive, `${baseName}_split.zip`);
+      } else {
+        // One request per part, downloaded as each finishes
+        for (const [index, part] of parts.entries()) {
+          const exported = await pdfApi.exportFile(file.fileId, {
+            format: 'pdf',
+            quality: 'high',
+            metadata: file.metadata,
+            pages: part.pages,
+          });
+          saveAs(exported, `${baseName}_part${index + 1}.pdf`);
+          setProgress({ done: index + 1, total: parts.length });
+        }
+      }
+
+      onOpenChange(false);
+      toast({
+        title: "Split complete",
+        description: `${parts.length} part(s) have been downloaded.`,
+      });
+    } catch (error) {
+      const errorInfo = handleApiError(error);
+      toast({
+        title: "Split failed",
+        description: errorInfo.message,
+        variant: "destructive",
+      });
+      console.error('Split error:', error);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Split PDF</DialogTitle>
+          <DialogDescription>
+            Split {file.file.name} ({numPages} pages) into several documents.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as SplitMode)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="ranges">By Ranges</TabsTrigger>
+            <TabsTrigger value="every">Every N Pages</TabsTrigger>
+            <TabsTrigger value="outline">By Bookmarks</TabsTrigger>
+          </TabsList>
+          <TabsContent value="ranges" className="space-y-2">
+            <Label htmlFor="split-ranges">Page ranges</Label>
+            <Input
+              id="split-ranges"
+              value={rangeExpression}
+              onChange={(e) => setRangeExpression(e.target.value)}
+              placeholder="e.g. 1-3,5,8-"
+            />
+            <p className="text-xs text-muted-foreground">
+              Each comma-separated range becomes its own document. Open ranges like 8- run to the last page.
+            </p>
+          </TabsContent>
+          <TabsContent value="every" className="space-y-2">
+            <Label htmlFor="split-every">Pages per document</Label>
+            <Input
+              id="split-every"
+              type="number"
+              min={1}
+              max={numPages}
+              value={everyN}
+              onChange={(e) => setEveryN(e.target.value)}
+              className="w-32"
+            />
+          </TabsContent>
+          <TabsContent value="outline">
+            <p className="text-sm text-muted-foreground">
+              {outline === null
+                ? 'Reading bookmarks...'
+                : 'A new document starts at each top-level bookmark.'}
+            </p>
+          </TabsContent>
+        </Tabs>
+
+        {/* Parts Preview */}
+        <div className="max-h-72 overflow-y-auto rounded-lg bg-muted/40 p-2">
+          {partsError ? (
+            <p className="p-4 text-sm text-destructive">{partsError}</p>
+          ) : parts.length === 0 ? (
+            <div className="flex items-center justify-center p-4">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin text-primary" />
+            </div>
+          ) : (
+            <Document file={file.url} loading={null} className="space-y-2">
+              {parts.map((part, index) => (
+                <div key={`${index}-${part.title}`} className="flex items-center gap-3 rounded bg-background p-2">
+                  <div className="w-40 shrink-0">
+                    <p className="truncate text-sm font-medium">{index + 1}. {part.title}</p>
+                    <p className="text-xs text-muted-foreground">{part.pages.length} page(s)</p>
+                  </div>
+                  <div className="flex gap-1">
+                    {part.pages.slice(0, PREVIEW_PAGES_PER_PART).map(pageNumber => (
+                      <div
+                        key={pageNumber}
+                        className="flex items-center justify-center overflow-hidden rounded border bg-white"
+                        style={{ width: PREVIEW_WIDTH, height: PREVIEW_WIDTH * 1.35 }}
+                      >
+                        <PageThumbnail entry={{ id: `${pageNumber}`, sourcePage: pageNumber }} width={PREVIEW_WIDTH} />
+                      </div>
+                    ))}
+                    {part.pages.length > PREVIEW_PAGES_PER_PART && (
+                      <span className="self-center px-2 text-xs text-muted-foreground">
+                        +{part.pages.length - PREVIEW_PAGES_PER_PART} more
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </Document>
+          )}
+        </div>
+
+        <RadioGroup
+          value={downloadMode}
+          onValueChange={(value) => setDownloadMode(value as DownloadMode)}
+          className="flex gap-6"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="zip" id="split-zip" />
+            <Label htmlFor="split-zip" className="flex items-center gap-1 cursor-pointer">
+              <Archive className="w-4 h-4" />
+              One ZIP archive
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="separate" id="split-separate" />
+            <Label htmlFor="split-separate" className="flex items-center gap-1 cursor-pointer">
+              <FileText className="w-4 h-4" />
+              Separate PDFs
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSplit}
+            disabled={parts.length === 0 || !!partsError || !!progress}
+            className="bg-gradient-primary hover:shadow-custom-glow transition-all"
+          >
+            {progress ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {progress.total > 1 ? `Exporting ${progress.done + 1} of ${progress.total}...` : 'Exporting...'}
+              </>
+            ) : (
+              <>
+                <Scissors className="w-4 h-4 mr-2" />
+                Split into {parts.length} Part{parts.length === 1 ? '' : 's'}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
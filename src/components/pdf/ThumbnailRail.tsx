@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { PageThumbnail } from './PageThumbnail';
+import { PageEntry } from './types';
+
+interface ThumbnailRailProps {
+  pages: PageEntry[];
+  /** 1-based position in `pages` */
+  currentPage: number;
+  onSelect: (position: number) => void;
+  onReorder: (pages: PageEntry[]) => void;
+}
+
+const THUMBNAIL_WIDTH = 110;
+const ITEM_HEIGHT = 180;
+const OVERSCAN = 3;
+
+// Must be rendered inside a react-pdf <Document>
+export const ThumbnailRail: React.FC<ThumbnailRailProps> = ({
+  pages,
+  currentPage,
+  onSelect,
+  onReorder,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Only thumbnails within the scrolled window (plus a little overscan) are rendered
+  const firstVisible = Math.max(Math.floor(scrollTop / ITEM_HEIGHT) - OVERSCAN, 0);
+  const lastVisible = Math.min(Math.ceil((scrollTop + viewportHeight) / ITEM_HEIGHT) + OVERSCAN, pages.length);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragIndex !== null && dropIndex !== null && dropIndex !== dragIndex && dropIndex !== dragIndex + 1) {
+      const reordered = [...pages];
+      const [moved] = reordered.splice(dragIndex, 1);
+      reordered.splice(dropIndex > dragIndex ? dropIndex - 1 : dropIndex, 0, moved);
+      onReorder(reordered);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="w-40 shrink-0 max-h-[75vh] overflow-y-auto rounded-lg bg-muted/40 p-2"
+    >
+      <div className="relative" style={{ height: pages.length * ITEM_HEIGHT }}>
+        {pages.slice(firstVisible, lastVisible).map((entry, offset) => {
+          const index = firstVisible + offset;
+
+          return (
+            <div
+              key={entry.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDrop={handleDrop}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onClick={() => onSelect(index + 1)}
+              className="absolute inset-x-0 flex flex-col items-center cursor-pointer"
+              style={{ top: index * ITEM_HEIGHT, height: ITEM_HEIGHT }}
+            >
+              {dropIndex === index && dragIndex !== null && (
+                <div className="absolute -top-1 inset-x-2 h-0.5 bg-primary rounded" />
+              )}
+              <div
+                className={cn(
+                  'flex items-center justify-center overflow-hidden rounded border-2 bg-white transition-colors',
+                  index + 1 === currentPage ? 'border-primary' : 'border-transparent hover:border-primary/40',
+                  dragIndex === index && 'opacity-40'
+                )}
+                style={{ width: THUMBNAIL_WIDTH, height: ITEM_HEIGHT - 32 }}
+              >
+                <PageThumbnail entry={entry} width={THUMBNAIL_WIDTH} />
+              </div>
+              <span className="mt-1 text-xs text-muted-foreground">
+                {index + 1}
+                {entry.sourcePage !== null && entry.sourcePage !== index + 1 && ` (p. ${entry.sourcePage})`}
+              </span>
+              {dropIndex === index + 1 && index === pages.length - 1 && dragIndex !== null && (
+                <div className="absolute bottom-0 inset-x-2 h-0.5 bg-primary rounded" />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
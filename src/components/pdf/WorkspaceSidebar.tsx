@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarFooter,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Combine, FileText, Loader2, MoreHorizontal, Plus, Trash2, X } from 'lucide-react';
+import { WorkspaceDocument, getDocumentFile } from '@/hooks/use-workspace';
+import { pdfUtils } from '@/api/pdf';
+
+interface WorkspaceSidebarProps {
+  documents: WorkspaceDocument[];
+  activeId: string | null;
+  deletingId: string | null;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onDelete: (id: string) => void;
+  onAdd: () => void;
+  onMerge: () => void;
+}
+
+export const WorkspaceSidebar: React.FC<WorkspaceSidebarProps> = ({
+  documents,
+  activeId,
+  deletingId,
+  onSelect,
+  onClose,
+  onDelete,
+  onAdd,
+  onMerge,
+}) => {
+  const uploadedCount = documents.filter(document => document.file.fileId).length;
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="px-4 py-3">
+        <h2 className="text-lg font-semibold text-sidebar-foreground">Workspace</h2>
+        <p className="text-xs text-muted-foreground">
+          {documents.length} open document{documents.length === 1 ? '' : 's'}
+        </p>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Documents</SidebarGroupLabel>
+          <SidebarGroupAction title="Add documents" onClick={onAdd}>
+            <Plus />
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {documents.length === 0 && (
+                <p className="px-2 py-4 text-sm text-muted-foreground">
+                  Upload PDFs to start working on them.
+                </p>
+              )}
+              {documents.map(document => {
+                const file = getDocumentFile(document);
+                const editCount =
+                  (file.edits?.textOverlays?.length || 0) +
+                  (file.edits?.textReplacements?.length || 0) +
+                  (file.edits?.pageOperations?.length || 0);
+
+                return (
+                  <SidebarMenuItem key={document.id}>
+                    <SidebarMenuButton
+                      size="lg"
+                      isActive={document.id === activeId}
+                      onClick={() => onSelect(document.id)}
+                      tooltip={file.file.name}
+                    >
+                      {deletingId === document.id ? (
+                        <Loader2 className="animate-spin" />
+                      ) : (
+                        <FileText />
+                      )}
+                      <div className="flex flex-col min-w-0">
+                        <span className="truncate">{file.file.name}</span>
+                        <span className="text-xs text-muted-foreground truncate">
+                          {pdfUtils.formatFileSize(file.file.size)}
+                          {document.numPages > 0 && ` · ${document.numPages} pages`}
+                          {editCount > 0 && ` · ${editCount} edit(s)`}
+                        </span>
+                      </div>
+                    </SidebarMenuButton>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover disabled={deletingId === document.id}>
+                          <MoreHorizontal />
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onClick={() => onClose(document.id)}>
+                          <X className="w-4 h-4 mr-2" />
+                          Close
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => onDelete(document.id)}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete from server
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </SidebarMenuItem>
+                );
+              })}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter className="p-4">
+        <Button
+          variant="outline"
+          onClick={onMerge}
+          disabled={uploadedCount < 2}
+          title={uploadedCount < 2 ? 'Upload at least two documents to merge them' : undefined}
+        >
+          <Combine className="w-4 h-4 mr-2" />
+          Merge PDFs
+        </Button>
+      </SidebarFooter>
+    </Sidebar>
+  );
+};
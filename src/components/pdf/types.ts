@@ -0,0 +1,112 @@
+// Shared types for the PDF editor components
+import type { PDFMetadata, PDFPageOperation } from '@/api/pdf';
+
+export type { PDFMetadata };
+
+export interface TextOverlay {
+  page: number;
+  /** Left edge of the overlay box in PDF user space (points) */
+  x: number;
+  /** Top edge of the overlay box in PDF user space (points, origin bottom-left) */
+  y: number;
+  text: string;
+  fontSize: number;
+  color: string;
+  /** Box width in points; estimated from the text when not set */
+  width?: number;
+}
+
+export interface TextReplacement {
+  page: number;
+  original: string;
+  replacement: string;
+  matchCase?: boolean;
+  wholeWord?: boolean;
+  /** Replace every match on the page instead of only the first */
+  allOccurrences?: boolean;
+}
+
+/** A page in the organized document, pointing back at a page of the uploaded file */
+export interface PageEntry {
+  id: string;
+  /** Page of the uploaded file, or null for an inserted blank page */
+  sourcePage: number | null;
+  /** Permanent clockwise rotation in degrees */
+  rotation?: number;
+}
+
+/** A bookmark being edited in the outline panel */
+export interface OutlineEntry {
+  id: string;
+  title: string;
+  /** Page the bookmark opens, or null when it does not point at a page */
+  pageNumber: number | null;
+  children: OutlineEntry[];
+}
+
+export interface PDFEdits {
+  textOverlays?: TextOverlay[];
+  textReplacements?: TextReplacement[];
+  /** Page layout after organizing; the original order when not set */
+  pages?: PageEntry[];
+  /** Operations that produced `pages`, replayed by the backend on save */
+  pageOperations?: PDFPageOperation[];
+}
+
+export interface PDFFile {
+  file: File;
+  url: string;
+  fileId?: string;
+  metadata?: PDFMetadata;
+  /** Metadata as read from the uploaded file, used to detect edits */
+  originalMetadata?: PDFMetadata;
+  edits?: PDFEdits;
+  /** Page operations the server has applied since `file` was read; local exports replay them first */
+  savedPageOperations?: PDFPageOperation[];
+}
+
+/**
+ * Approximate width of an overlay in points, used when the user has not resized it
+ */
+export const getOverlayWidth = (overlay: TextOverlay): number =>
+  overlay.width ?? Math.max(overlay.text.length, 1) * overlay.fontSize * 0.6;
+
+/**
+ * Approximate line height of an overlay in points
+ */
+export const getOverlayHeight = (overlay: TextOverlay): number => overlay.fontSize * 1.2;
+
+/**
+ * Metadata fields whose value differs from what the uploaded file contained
+ */
+export const getChangedMetadata = (file: PDFFile): PDFMetadata => {
+  const changed: PDFMetadata = {};
+  (Object.keys(file.metadata || {}) as (keyof PDFMetadata)[]).forEach(key => {
+    if ((file.metadata?.[key] || '') !== (file.originalMetadata?.[key] || '')) {
+      changed[key] = file.metadata?.[key] || '';
+    }
+  });
+  return changed;
+};
+
+/**
+ * Current page layout, falling back to the original page order
+ */
+export const getPageLayout = (edits: PDFEdits | undefined, numPages: number): PageEntry[] =>
+  edits?.pages ?? Array.from({ length: numPages }, (_, i) => ({ id: `page-${i + 1}`, sourcePage: i + 1 }));
+
+/**
+ * Position of a page of the uploaded file in a layout, preferring the copy at `near` if it is one
+ * @returns 1-based position, or null when the page has been deleted
+ */
+export const getLayoutPosition = (pages: PageEntry[], sourcePage: number, near?: number): number | null => {
+  if (near && pages[near - 1]?.sourcePage === sourcePage) return near;
+  const index = pages.findIndex(entry => entry.sourcePage === sourcePage);
+  return index >= 0 ? index + 1 : null;
+};
+
+/**
+ * Whether any page organize operation has been made
+ */
+export const hasPageChanges = (edits: PDFEdits | undefined): boolean =>
+  (edits?.pageOperations?.length ?? 0) > 0;
@@ -0,0 +1,16 @@
+import * as React from "react";
+
+import { authApi, authSession } from "@/api/auth";
+
+export function useAuth() {
+  const [, forceUpdate] = React.useReducer((count: number) => count + 1, 0);
+
+  React.useEffect(() => authSession.subscribe(forceUpdate), []);
+
+  return {
+    user: authSession.get()?.user ?? null,
+    isLoginRequired: authSession.isLoginRequired(),
+    login: authApi.login,
+    logout: authApi.logout,
+  };
+}
@@ -0,0 +1,52 @@
+import * as React from "react";
+
+import { backendSettings } from "@/api/backend";
+import { pdfApi } from "@/api/pdf";
+
+const HEALTH_CHECK_INTERVAL = 30000;
+
+export type BackendHealth = {
+  status: "checking" | "online" | "offline";
+  latency?: number;
+};
+
+export function useBackend() {
+  const [, forceUpdate] = React.useReducer((count: number) => count + 1, 0);
+  const [health, setHealth] = React.useState<BackendHealth>({ status: "checking" });
+
+  React.useEffect(() => backendSettings.subscribe(forceUpdate), []);
+
+  const profile = backendSettings.getActiveProfile();
+
+  const checkHealth = React.useCallback(async () => {
+    // A check that finishes after switching backends describes the old one and is dropped
+    const isCurrent = () => {
+      const active = backendSettings.getActiveProfile();
+      return active.id === profile.id && active.baseUrl === profile.baseUrl;
+    };
+    setHealth((prev) => ({ ...prev, status: "checking" }));
+    try {
+      const { latency } = await pdfApi.health(profile.baseUrl);
+      if (isCurrent()) setHealth({ status: "online", latency });
+    } catch {
+      if (isCurrent()) setHealth({ status: "offline" });
+    }
+  }, [profile.id, profile.baseUrl]);
+
+  // Re-check whenever the backend changes, then periodically
+  React.useEffect(() => {
+    checkHealth();
+    const timer = setInterval(checkHealth, HEALTH_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [checkHealth]);
+
+  return {
+    profile,
+    profiles: backendSettings.getProfiles(),
+    health,
+    checkHealth,
+    setActiveProfile: backendSettings.setActiveProfile,
+    saveProfile: backendSettings.saveProfile,
+    removeProfile: backendSettings.removeProfile,
+  };
+}
@@ -0,0 +1,95 @@
+import * as React from "react";
+
+import { loadPdfDocument } from "@/lib/pdfjs";
+import { getPageText, type TextMatchOptions } from "@/lib/textSearch";
+import type { SearchHit, SearchWorkerRequest, SearchWorkerResponse } from "@/lib/textSearch.worker";
+
+export type { SearchHit };
+
+type SearchResults = {
+  hits: SearchHit[];
+  truncated: boolean;
+  error?: string;
+};
+
+const emptyResults: SearchResults = { hits: [], truncated: false };
+
+/**
+ * Index the text of every page of a PDF in a worker and search it
+ * @param source - URL of the PDF being viewed; indexing restarts when it changes
+ */
+export function useDocumentSearch(source: string | null) {
+  const workerRef = React.useRef<Worker | null>(null);
+  const searchIdRef = React.useRef(0);
+  const [progress, setProgress] = React.useState({ indexed: 0, total: 0 });
+  const [results, setResults] = React.useState<SearchResults>(emptyResults);
+  const [isSearching, setIsSearching] = React.useState(false);
+
+  React.useEffect(() => {
+    const worker = new Worker(new URL("../lib/textSearch.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const { id, ...response } = event.data;
+      // Answers to superseded searches are dropped
+      if (id !== searchIdRef.current) return;
+      setResults(response);
+      setIsSearching(false);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // pdfjs extracts the text (in its own worker); pages are handed over one at a time as they are read
+  React.useEffect(() => {
+    const post = (message: SearchWorkerRequest) => workerRef.current?.postMessage(message);
+    post({ type: "reset" });
+    setProgress({ indexed: 0, total: 0 });
+    if (!source) return;
+
+    let cancelled = false;
+    const indexDocument = async () => {
+      const pdf = await loadPdfDocument(source);
+      try {
+        setProgress({ indexed: 0, total: pdf.numPages });
+        for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+          const page = await pdf.getPage(pageNumber);
+          const pageText = getPageText(await page.getTextContent());
+          page.cleanup();
+          if (cancelled) break;
+          post({ type: "add-page", pageNumber, pageText });
+          setProgress({ indexed: pageNumber, total: pdf.numPages });
+        }
+      } finally {
+        await pdf.destroy();
+      }
+    };
+
+    indexDocument().catch((error) => console.error("Search index error:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  const search = React.useCallback((query: string, options: TextMatchOptions) => {
+    const id = ++searchIdRef.current;
+    if (!query) {
+      setResults(emptyResults);
+      setIsSearching(false);
+      return;
+    }
+    setIsSearching(true);
+    const message: SearchWorkerRequest = { type: "search", id, query, options };
+    workerRef.current?.postMessage(message);
+  }, []);
+
+  return {
+    ...results,
+    isSearching,
+    indexed: progress.indexed,
+    total: progress.total,
+    isIndexing: progress.total === 0 || progress.indexed < progress.total,
+    search,
+  };
+}
@@ -0,0 +1,121 @@
+import * as React from "react";
+
+import { pdfApi, handleApiError, type PDFExportJob, type PDFExportRequest } from "@/api/pdf";
+
+const STORAGE_KEY = "pdf-editor:recent-exports";
+const RECENT_EXPORTS_LIMIT = 10;
+const POLL_INITIAL_DELAY = 1000;
+const POLL_MAX_DELAY = 15000;
+// Consecutive failed status requests before a job is given up on
+const POLL_MAX_ERRORS = 5;
+
+export type ExportJobEntry = PDFExportJob & {
+  fileName: string;
+};
+
+export const isJobActive = (job: PDFExportJob) => job.status === "queued" || job.status === "running";
+
+function loadRecentExports(): ExportJobEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+/** Forget the recent exports list, e.g. when signing out */
+export function clearRecentExports() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type UseExportJobsOptions = {
+  /** Called once when a job started or resumed here reaches done or failed */
+  onFinished?: (job: ExportJobEntry) => void;
+};
+
+export function useExportJobs({ onFinished }: UseExportJobsOptions = {}) {
+  const [jobs, setJobs] = React.useState<ExportJobEntry[]>(loadRecentExports);
+  const mountedRef = React.useRef(true);
+  const pollingRef = React.useRef(new Set<string>());
+  const onFinishedRef = React.useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  React.useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  }, [jobs]);
+
+  const updateJob = React.useCallback((exportId: string, changes: Partial<ExportJobEntry>) => {
+    setJobs((prev) => prev.map((job) => (job.exportId === exportId ? { ...job, ...changes } : job)));
+  }, []);
+
+  // Poll with exponential backoff until the job settles or the panel unmounts
+  const pollJob = React.useCallback(
+    async (entry: ExportJobEntry) => {
+      if (pollingRef.current.has(entry.exportId)) return;
+      pollingRef.current.add(entry.exportId);
+
+      let delay = POLL_INITIAL_DELAY;
+      let errors = 0;
+      try {
+        while (mountedRef.current) {
+          await wait(delay);
+          if (!mountedRef.current) return;
+
+          try {
+            const job = await pdfApi.getExportJob(entry.fileId, entry.exportId);
+            errors = 0;
+            updateJob(entry.exportId, job);
+            if (!isJobActive(job)) {
+              onFinishedRef.current?.({ ...entry, ...job });
+              return;
+            }
+          } catch (error) {
+            console.error("Export job poll error:", error);
+            if (++errors >= POLL_MAX_ERRORS) {
+              const failed = { status: "failed" as const, error: handleApiError(error).message };
+              updateJob(entry.exportId, failed);
+              onFinishedRef.current?.({ ...entry, ...failed });
+              return;
+            }
+          }
+          delay = Math.min(delay * 2, POLL_MAX_DELAY);
+        }
+      } finally {
+        pollingRef.current.delete(entry.exportId);
+      }
+    },
+    [updateJob],
+  );
+
+  // Resume polling jobs that were still running when the panel was last open
+  React.useEffect(() => {
+    mountedRef.current = true;
+    loadRecentExports().filter(isJobActive).forEach(pollJob);
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [pollJob]);
+
+  const startJob = React.useCallback(
+    async (fileId: string, fileName: string, options: Omit<PDFExportRequest, "fileId">) => {
+      const job = await pdfApi.startExportJob(fileId, options);
+      const entry: ExportJobEntry = { ...job, fileName };
+      setJobs((prev) => [entry, ...prev].slice(0, RECENT_EXPORTS_LIMIT));
+      if (isJobActive(entry)) {
+        pollJob(entry);
+      } else {
+        onFinishedRef.current?.(entry);
+      }
+      return entry;
+    },
+    [pollJob],
+  );
+
+  const removeJob = React.useCallback((exportId: string) => {
+    setJobs((prev) => prev.filter((job) => job.exportId !== exportId));
+  }, []);
+
+  return { jobs, startJob, removeJob };
+}
@@ -0,0 +1,47 @@
+import * as React from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { offlineQueue } from "@/api/offlineQueue";
+import { pdfKeys } from "@/hooks/use-pdf-api";
+
+export function useOfflineQueue() {
+  const queryClient = useQueryClient();
+  const [, forceUpdate] = React.useReducer((count: number) => count + 1, 0);
+  const [isOnline, setIsOnline] = React.useState(() => navigator.onLine);
+
+  React.useEffect(() => offlineQueue.subscribe(forceUpdate), []);
+
+  // Replayed saves change the file on the server, so its cached preview is out of date
+  React.useEffect(
+    () =>
+      offlineQueue.onReplayed((save) => {
+        queryClient.invalidateQueries({ queryKey: pdfKeys.preview(save.fileId) });
+      }),
+    [queryClient],
+  );
+
+  React.useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // Saves left over from a previous visit are sent as soon as the editor opens
+  React.useEffect(() => {
+    offlineQueue.flush();
+  }, []);
+
+  return {
+    entries: offlineQueue.getEntries(),
+    isOnline,
+    isSyncing: offlineQueue.isSyncing(),
+    flush: offlineQueue.flush,
+    retry: offlineQueue.retry,
+    discard: offlineQueue.discard,
+  };
+}
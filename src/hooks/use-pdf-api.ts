@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { pdfApi, type PDFExportRequest, type PDFOutlineItem, type TransferOptions } from "@/api/pdf";
+import { offlineQueue, type PendingSave } from "@/api/offlineQueue";
+import type { TextOverlay } from "@/components/pdf/types";
+
+// Everything cached for a file lives under ["pdf", fileId] so it can be invalidated or dropped together
+export const pdfKeys = {
+  all: ["pdf"] as const,
+  file: (fileId: string) => [...pdfKeys.all, fileId] as const,
+  preview: (fileId: string) => [...pdfKeys.file(fileId), "preview"] as const,
+  /** Overlays as last sent to the server; client-side only, updated optimistically on save */
+  savedOverlays: (fileId: string) => [...pdfKeys.file(fileId), "saved-overlays"] as const,
+};
+
+const PREVIEW_STALE_TIME = 5 * 60 * 1000;
+
+export function usePdfPreview(fileId: string | undefined) {
+  return useQuery({
+    queryKey: pdfKeys.preview(fileId ?? ""),
+    queryFn: () => pdfApi.preview(fileId as string),
+    enabled: !!fileId,
+    staleTime: PREVIEW_STALE_TIME,
+  });
+}
+
+export function useSavedOverlays(fileId: string | undefined) {
+  return useQuery({
+    queryKey: pdfKeys.savedOverlays(fileId ?? ""),
+    // Nothing has been saved from this browser until the first save seeds the cache
+    queryFn: () => [] as TextOverlay[],
+    enabled: !!fileId,
+    staleTime: Infinity,
+  });
+}
+
+type UploadVariables = TransferOptions & {
+  file: File;
+};
+
+export function useUploadPdf() {
+  return useMutation({
+    mutationKey: [...pdfKeys.all, "upload"],
+    mutationFn: ({ file, ...options }: UploadVariables) => pdfApi.upload(file, options),
+  });
+}
+
+type SaveVariables = {
+  save: PendingSave;
+  /** Overlays included in the save, shown as saved right away */
+  overlays: TextOverlay[];
+};
+
+export function useSaveEdits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: [...pdfKeys.all, "save"],
+    mutationFn: ({ save }: SaveVariables) => offlineQueue.submit(save),
+    onMutate: async ({ save, overlays }) => {
+      const key = pdfKeys.savedOverlays(save.fileId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<TextOverlay[]>(key);
+      queryClient.setQueryData(key, overlays);
+      return { previous };
+    },
+    onError: (_error, { save }, context) => {
+      queryClient.setQueryData(pdfKeys.savedOverlays(save.fileId), context?.previous);
+    },
+    onSuccess: (result, { save }) => {
+      // A queued save changes nothing on the server yet; it is invalidated once replayed
+      if (result === "saved") {
+        queryClient.invalidateQueries({ queryKey: pdfKeys.preview(save.fileId) });
+      }
+    },
+  });
+}
+
+type OutlineVariables = {
+  fileId: string;
+  outline: PDFOutlineItem[];
+};
+
+export function useSaveOutline() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: [...pdfKeys.all, "outline"],
+    mutationFn: ({ fileId, outline }: OutlineVariables) => pdfApi.updateOutline(fileId, outline),
+    onSuccess: (_result, { fileId }) => {
+      queryClient.invalidateQueries({ queryKey: pdfKeys.preview(fileId) });
+    },
+  });
+}
+
+type ExportVariables = TransferOptions & {
+  fileId: string;
+  options: Omit<PDFExportRequest, "fileId">;
+};
+
+export function useExportPdf() {
+  return useMutation({
+    mutationKey: [...pdfKeys.all, "export"],
+    mutationFn: ({ fileId, options, ...transfer }: ExportVariables) => pdfApi.exportFile(fileId, options, transfer),
+  });
+}
+
+export function useDownloadExport() {
+  return useMutation({
+    mutationKey: [...pdfKeys.all, "download"],
+    mutationFn: ({ fileId, exportId }: { fileId: string; exportId: string }) =>
+      pdfApi.downloadExport(fileId, exportId),
+  });
+}
+
+export function useDeletePdf() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: [...pdfKeys.all, "delete"],
+    mutationFn: (fileId: string) => pdfApi.delete(fileId),
+    onSuccess: (_result, fileId) => {
+      queryClient.removeQueries({ queryKey: pdfKeys.file(fileId) });
+    },
+  });
+}
@@ -0,0 +1,222 @@
+import * as React from "react";
+
+import type { PDFPageOperation } from "@/api/pdf";
+import type { PDFEdits, PDFFile, PDFMetadata } from "@/components/pdf/types";
+import {
+  createHistory,
+  getHistoryStatus,
+  historyReducer,
+  type HistoryAction,
+  type HistoryState,
+} from "@/lib/editHistory";
+import { getSavedPageCount, rebasePageEdits } from "@/lib/pageOperations";
+
+export type EditState = {
+  metadata: PDFMetadata;
+  edits: PDFEdits;
+};
+
+export type WorkspaceDocument = {
+  id: string;
+  /** The loaded file itself; metadata and edits live in the undoable history */
+  file: PDFFile;
+  history: HistoryState<EditState>;
+  currentPage: number;
+  numPages: number;
+  scale: number;
+};
+
+export type DocumentViewState = Pick<WorkspaceDocument, "currentPage" | "numPages" | "scale">;
+
+type WorkspaceState = {
+  documents: WorkspaceDocument[];
+  activeId: string | null;
+};
+
+type Action =
+  | { type: "ADD_DOCUMENT"; document: WorkspaceDocument }
+  | { type: "REMOVE_DOCUMENT"; id: string }
+  | { type: "SET_ACTIVE"; id: string }
+  | { type: "UPDATE_VIEW"; id: string; changes: Partial<DocumentViewState> }
+  | { type: "SET_ORIGINAL_METADATA"; id: string; metadata: PDFMetadata }
+  | { type: "HISTORY"; id: string; action: HistoryAction<EditState> }
+  | { type: "PAGES_SAVED"; id: string; operations: PDFPageOperation[] }
+  | { type: "RESTORE"; documents: WorkspaceDocument[]; activeId: string | null };
+
+export const emptyEditState: EditState = {
+  metadata: {},
+  edits: { textOverlays: [], textReplacements: [] },
+};
+
+const emptyHistory = createHistory(emptyEditState);
+
+function genId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createWorkspaceDocument(
+  file: PDFFile,
+  editState: EditState = emptyEditState,
+  view: Partial<DocumentViewState> = {},
+  id = genId(),
+  historyLabel?: string,
+): WorkspaceDocument {
+  return {
+    id,
+    file,
+    history: createHistory(editState, historyLabel),
+    currentPage: 1,
+    numPages: 0,
+    scale: 1.0,
+    ...view,
+  };
+}
+
+function updateDocument(
+  state: WorkspaceState,
+  id: string,
+  update: (document: WorkspaceDocument) => WorkspaceDocument,
+): WorkspaceState {
+  return {
+    ...state,
+    documents: state.documents.map((document) => (document.id === id ? update(document) : document)),
+  };
+}
+
+function reducer(state: WorkspaceState, action: Action): WorkspaceState {
+  switch (action.type) {
+    case "ADD_DOCUMENT":
+      return { documents: [...state.documents, action.document], activeId: action.document.id };
+
+    case "REMOVE_DOCUMENT": {
+      const index = state.documents.findIndex((document) => document.id === action.id);
+      if (index === -1) return state;
+
+      const documents = state.documents.filter((document) => document.id !== action.id);
+      // Fall back to the neighbouring document when the active one is closed
+      const activeId =
+        state.activeId === action.id
+          ? (documents[Math.min(index, documents.length - 1)]?.id ?? null)
+          : state.activeId;
+      return { documents, activeId };
+    }
+
+    case "SET_ACTIVE":
+      return { ...state, activeId: action.id };
+
+    case "UPDATE_VIEW":
+      return updateDocument(state, action.id, (document) => ({ ...document, ...action.changes }));
+
+    case "SET_ORIGINAL_METADATA":
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        file: { ...document.file, originalMetadata: action.metadata },
+        // Only seed the history if the user has not started editing yet
+        history:
+          document.history.entries.length === 1
+            ? createHistory({ ...document.history.entries[0].state, metadata: action.metadata })
+            : document.history,
+      }));
+
+    case "HISTORY":
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        history: historyReducer(document.history, action.action),
+      }));
+
+    // The server file now includes these operations; every undo step is rebased onto it so they are
+    // neither sent again nor laid out a second time on top of the reloaded file
+    case "PAGES_SAVED":
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        file: {
+          ...document.file,
+          savedPageOperations: [...(document.file.savedPageOperations || []), ...action.operations],
+        },
+        numPages: getSavedPageCount(action.operations, document.numPages),
+        history: {
+          ...document.history,
+          entries: document.history.entries.map((entry) => ({
+            ...entry,
+            state: {
+              ...entry.state,
+              edits: rebasePageEdits(entry.state.edits, action.operations, document.numPages),
+            },
+          })),
+        },
+      }));
+
+    case "RESTORE":
+      return { documents: action.documents, activeId: action.activeId };
+  }
+}
+
+/**
+ * Resolve a workspace document into the file shape consumed by the editor panels
+ */
+export function getDocumentFile(document: WorkspaceDocument): PDFFile {
+  return { ...document.file, ...getHistoryStatus(document.history).present };
+}
+
+export function useWorkspace() {
+  const [state, dispatch] = React.useReducer(reducer, { documents: [], activeId: null });
+
+  const activeDocument = state.documents.find((document) => document.id === state.activeId) ?? null;
+  const activeId = activeDocument?.id ?? null;
+
+  const addDocument = React.useCallback((document: WorkspaceDocument) => {
+    dispatch({ type: "ADD_DOCUMENT", document });
+  }, []);
+  const removeDocument = React.useCallback((id: string) => dispatch({ type: "REMOVE_DOCUMENT", id }), []);
+  const setActive = React.useCallback((id: string) => dispatch({ type: "SET_ACTIVE", id }), []);
+  const updateView = React.useCallback(
+    (id: string, changes: Partial<DocumentViewState>) => dispatch({ type: "UPDATE_VIEW", id, changes }),
+    [],
+  );
+  const setOriginalMetadata = React.useCallback(
+    (id: string, metadata: PDFMetadata) => dispatch({ type: "SET_ORIGINAL_METADATA", id, metadata }),
+    [],
+  );
+  const markPagesSaved = React.useCallback(
+    (id: string, operations: PDFPageOperation[]) => dispatch({ type: "PAGES_SAVED", id, operations }),
+    [],
+  );
+  const restore = React.useCallback(
+    (documents: WorkspaceDocument[], activeId: string | null) => dispatch({ type: "RESTORE", documents, activeId }),
+    [],
+  );
+
+  // History controls always target the active document
+  const dispatchHistory = React.useCallback(
+    (action: HistoryAction<EditState>) => {
+      if (activeId) dispatch({ type: "HISTORY", id: activeId, action });
+    },
+    [activeId],
+  );
+  const activeHistory = activeDocument?.history;
+  const history = React.useMemo(
+    () => ({
+      ...getHistoryStatus(activeHistory ?? emptyHistory),
+      record: (editState: EditState, label: string, mergeKey?: string) =>
+        dispatchHistory({ type: "RECORD", state: editState, label, mergeKey }),
+      undo: () => dispatchHistory({ type: "UNDO" }),
+      redo: () => dispatchHistory({ type: "REDO" }),
+      jumpTo: (index: number) => dispatchHistory({ type: "JUMP", index }),
+    }),
+    [activeHistory, dispatchHistory],
+  );
+
+  return {
+    documents: state.documents,
+    activeDocument,
+    activeFile: activeDocument ? getDocumentFile(activeDocument) : null,
+    history,
+    addDocument,
+    removeDocument,
+    setActive,
+    updateView,
+    setOriginalMetadata,
+    markPagesSaved,
+    restore,
+  };
+}
@@ -0,0 +1,79 @@
+const HISTORY_LIMIT = 100;
+
+export type HistoryEntry<T> = {
+  id: number;
+  label: string;
+  timestamp: number;
+  state: T;
+  /** Consecutive records sharing a key collapse into one entry (e.g. typing) */
+  mergeKey?: string;
+};
+
+export type HistoryState<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+};
+
+export type HistoryAction<T> =
+  | { type: 'RECORD'; state: T; label: string; mergeKey?: string }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JUMP'; index: number }
+  | { type: 'RESET'; state: T; label: string };
+
+let count = 0;
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER;
+  return count;
+}
+
+function createEntry<T>(state: T, label: string, mergeKey?: string): HistoryEntry<T> {
+  return { id: genId(), label, timestamp: Date.now(), state, mergeKey };
+}
+
+export function createHistory<T>(state: T, label = 'Opened document'): HistoryState<T> {
+  return { entries: [createEntry(state, label)], index: 0 };
+}
+
+export function historyReducer<T>(history: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case 'RECORD': {
+      // Recording after an undo discards the redo branch
+      const entries = history.entries.slice(0, history.index + 1);
+      const last = entries[entries.length - 1];
+
+      if (action.mergeKey && last.mergeKey === action.mergeKey && entries.length > 1) {
+        entries[entries.length - 1] = { ...last, state: action.state, timestamp: Date.now() };
+        return { entries, index: entries.length - 1 };
+      }
+
+      entries.push(createEntry(action.state, action.label, action.mergeKey));
+      const overflow = Math.max(entries.length - HISTORY_LIMIT, 0);
+      return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+    }
+
+    case 'UNDO':
+      return { ...history, index: Math.max(history.index - 1, 0) };
+
+    case 'REDO':
+      return { ...history, index: Math.min(history.index + 1, history.entries.length - 1) };
+
+    case 'JUMP':
+      if (action.index < 0 || action.index >= history.entries.length) return history;
+      return { ...history, index: action.index };
+
+    case 'RESET':
+      return createHistory(action.state, action.label);
+  }
+}
+
+export function getHistoryStatus<T>(history: HistoryState<T>) {
+  return {
+    present: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+  };
+}
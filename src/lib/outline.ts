@@ -0,0 +1,145 @@
+import type { PDFOutlineItem } from '@/api/pdf';
+import type { OutlineEntry } from '@/components/pdf/types';
+
+let outlineIdCounter = 0;
+
+const createOutlineId = () => `outline-${Date.now().toString(36)}-${++outlineIdCounter}`;
+
+/**
+ * Give every bookmark read from the document an id so it can be edited in place
+ */
+export const toOutlineEntries = (items: PDFOutlineItem[]): OutlineEntry[] =>
+  items.map(item => ({
+    id: createOutlineId(),
+    title: item.title,
+    pageNumber: item.pageNumber,
+    children: toOutlineEntries(item.children || []),
+  }));
+
+/**
+ * Strip editor ids, leaving the tree the backend writes
+ */
+export const toOutlineItems = (entries: OutlineEntry[]): PDFOutlineItem[] =>
+  entries.map(entry => ({
+    title: entry.title,
+    pageNumber: entry.pageNumber,
+    children: toOutlineItems(entry.children),
+  }));
+
+export const createOutlineEntry = (title: string, pageNumber: number): OutlineEntry => ({
+  id: createOutlineId(),
+  title,
+  pageNumber,
+  children: [],
+});
+
+/**
+ * Find the sibling list holding an entry, and its position in it
+ */
+const locate = (
+  entries: OutlineEntry[],
+  id: string,
+  parent: OutlineEntry | null = null,
+): { siblings: OutlineEntry[]; index: number; parent: OutlineEntry | null } | null => {
+  const index = entries.findIndex(entry => entry.id === id);
+  if (index >= 0) return { siblings: entries, index, parent };
+  for (const entry of entries) {
+    const found = locate(entry.children, id, entry);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Rebuild the tree, replacing the sibling list that contains `id`
+ */
+const mapSiblings = (
+  entries: OutlineEntry[],
+  id: string,
+  update: (siblings: OutlineEntry[], index: number) => OutlineEntry[],
+): OutlineEntry[] => {
+  const index = entries.findIndex(entry => entry.id === id);
+  if (index >= 0) return update(entries, index);
+  return entries.map(entry => ({ ...entry, children: mapSiblings(entry.children, id, update) }));
+};
+
+export const updateOutlineEntry = (
+  entries: OutlineEntry[],
+  id: string,
+  changes: Partial<Omit<OutlineEntry, 'id' | 'children'>>,
+): OutlineEntry[] =>
+  mapSiblings(entries, id, (siblings, index) =>
+    siblings.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+  );
+
+/**
+ * Remove an entry together with its nested bookmarks
+ */
+export const removeOutlineEntry = (entries: OutlineEntry[], id: string): OutlineEntry[] =>
+  mapSiblings(entries, id, (siblings, index) => siblings.filter((_, i) => i !== index));
+
+/**
+ * Insert an entry right after another one, or at the end of the top level when `afterId` is null
+ */
+export const insertOutlineEntry = (
+  entries: OutlineEntry[],
+  entry: OutlineEntry,
+  afterId: string | null,
+): OutlineEntry[] => {
+  if (!afterId || !locate(entries, afterId)) return [...entries, entry];
+  return mapSiblings(entries, afterId, (siblings, index) => [
+    ...siblings.slice(0, index + 1),
+    entry,
+    ...siblings.slice(index + 1),
+  ]);
+};
+
+/**
+ * Swap an entry with its previous (-1) or next (+1) sibling
+ */
+export const moveOutlineEntry = (entries: OutlineEntry[], id: string, delta: -1 | 1): OutlineEntry[] =>
+  mapSiblings(entries, id, (siblings, index) => {
+    const target = index + delta;
+    if (target < 0 || target >= siblings.length) return siblings;
+    const reordered = [...siblings];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  });
+
+/**
+ * Nest an entry as the last child of its previous sibling
+ */
+export const indentOutlineEntry = (entries: OutlineEntry[], id: string): OutlineEntry[] =>
+  mapSiblings(entries, id, (siblings, index) => {
+    if (index === 0) return siblings;
+    const previous = siblings[index - 1];
+    return [
+      ...siblings.slice(0, index - 1),
+      { ...previous, children: [...previous.children, siblings[index]] },
+      ...siblings.slice(index + 1),
+    ];
+  });
+
+/**
+ * Move an entry out of its parent, placing it right after the parent
+ */
+export const outdentOutlineEntry = (entries: OutlineEntry[], id: string): OutlineEntry[] => {
+  const location = locate(entries, id);
+  if (!location?.parent) return entries;
+
+  const entry = location.siblings[location.index];
+  return insertOutlineEntry(removeOutlineEntry(entries, id), entry, location.parent.id);
+};
+
+/**
+ * Whether an entry can be moved in a direction, nested or un-nested
+ */
+export const getOutlineMoves = (entries: OutlineEntry[], id: string | null) => {
+  const location = id ? locate(entries, id) : null;
+  return {
+    up: !!location && location.index > 0,
+    down: !!location && location.index < location.siblings.length - 1,
+    indent: !!location && location.index > 0,
+    outdent: !!location?.parent,
+  };
+};
@@ -0,0 +1,93 @@
+import type { PDFPageOperation } from '@/api/pdf';
+import { getPageLayout, type PDFEdits, type PageEntry } from '@/components/pdf/types';
+
+let pageIdCounter = 0;
+
+const createPageId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${++pageIdCounter}`;
+
+/**
+ * Apply a page operation to a layout, mirroring what the backend does on save
+ */
+export const applyPageOperation = (pages: PageEntry[], operation: PDFPageOperation): PageEntry[] => {
+  switch (operation.action) {
+    case 'reorder_pages':
+      return operation.pageOrder.map(position => pages[position - 1]);
+
+    case 'delete_pages':
+      return pages.filter((_, index) => !operation.pages.includes(index + 1));
+
+    case 'duplicate_pages':
+      return pages.flatMap((entry, index) =>
+        operation.pages.includes(index + 1)
+          ? [entry, { ...entry, id: createPageId(entry.id) }]
+          : [entry]
+      );
+
+    case 'rotate_pages':
+      return pages.map((entry, index) =>
+        operation.pages.includes(index + 1)
+          ? { ...entry, rotation: ((entry.rotation || 0) + operation.angle) % 360 }
+          : entry
+      );
+
+    case 'insert_blank_pages': {
+      const blanks = Array.from({ length: operation.count }, () => ({
+        id: createPageId('blank'),
+        sourcePage: null,
+      }));
+      return [...pages.slice(0, operation.afterPage), ...blanks, ...pages.slice(operation.afterPage)];
+    }
+  }
+};
+
+/**
+ * Page count of the file once the server has applied some operations to it
+ */
+export const getSavedPageCount = (operations: PDFPageOperation[], numPages: number): number =>
+  operations.reduce(applyPageOperation, getPageLayout(undefined, numPages)).length;
+
+/**
+ * Where each page of a file ends up once the server has applied some operations to it
+ * @returns Map from the old page number to its first position in the saved file; deleted pages are absent
+ */
+const getSavedPageNumbers = (operations: PDFPageOperation[], numPages: number): Map<number, number> => {
+  const savedNumbers = new Map<number, number>();
+  operations.reduce(applyPageOperation, getPageLayout(undefined, numPages)).forEach((entry, index) => {
+    if (entry.sourcePage !== null && !savedNumbers.has(entry.sourcePage)) {
+      savedNumbers.set(entry.sourcePage, index + 1);
+    }
+  });
+  return savedNumbers;
+};
+
+// Renumber page-bound edits; those on a page that no longer exists are dropped
+const renumberPages = <T extends { page: number }>(items: T[] | undefined, savedNumbers: Map<number, number>) =>
+  items
+    ?.filter(item => savedNumbers.has(item.page))
+    .map(item => ({ ...item, page: savedNumbers.get(item.page) }));
+
+/**
+ * Rebase page edits onto the file the server produced after applying `saved`.
+ * Operations made after the save are replayed on the new file; states from before it
+ * (e.g. further back in the undo history) fall back to the saved file as it is,
+ * since operations the server has applied cannot be taken back.
+ * Overlays and replacements follow their page to its new number.
+ */
+export const rebasePageEdits = (edits: PDFEdits, saved: PDFPageOperation[], numPages: number): PDFEdits => {
+  const operations = edits.pageOperations || [];
+  const includesSaved = saved.length <= operations.length
+    && saved.every((operation, index) => JSON.stringify(operation) === JSON.stringify(operations[index]));
+  const remaining = includesSaved ? operations.slice(saved.length) : [];
+  const savedNumbers = getSavedPageNumbers(saved, numPages);
+  const rebased = {
+    ...edits,
+    textOverlays: renumberPages(edits.textOverlays, savedNumbers),
+    textReplacements: renumberPages(edits.textReplacements, savedNumbers),
+  };
+
+  if (remaining.length === 0) {
+    return { ...rebased, pages: undefined, pageOperations: [] };
+  }
+  const savedLayout = getPageLayout(undefined, getSavedPageCount(saved, numPages));
+  return { ...rebased, pages: remaining.reduce(applyPageOperation, savedLayout), pageOperations: remaining };
+};
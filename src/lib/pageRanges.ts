@@ -0,0 +1,36 @@
+/**
+ * Parse a page range expression like `1-3,5,8-` into one group of page numbers per part.
+ * Open-ended ranges (`8-`) run to the last page.
+ * @throws Error describing the first invalid part
+ */
+export const parsePageRangeGroups = (expression: string, numPages: number): number[][] => {
+  const parts = expression.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Enter at least one page or range.');
+  }
+
+  return parts.map(part => {
+    const match = /^(\d+)?\s*(-)?\s*(\d+)?$/.exec(part);
+    if (!match || (!match[1] && !match[3]) || (!match[2] && !match[1])) {
+      throw new Error(`"${part}" is not a valid page or range.`);
+    }
+
+    const start = match[1] ? parseInt(match[1]) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3]) : numPages) : start;
+    if (start < 1 || end > numPages) {
+      throw new Error(`"${part}" is outside pages 1-${numPages}.`);
+    }
+    if (start > end) {
+      throw new Error(`"${part}" starts after it ends.`);
+    }
+
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  });
+};
+
+/**
+ * Parse a page range expression into a flat list of page numbers, in the order given
+ * @throws Error describing the first invalid part
+ */
+export const parsePageRanges = (expression: string, numPages: number): number[] =>
+  parsePageRangeGroups(expression, numPages).flat();
@@ -0,0 +1,156 @@
+import { PDFDocument, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import type { PDFPageOperation } from '@/api/pdf';
+import type { PDFEdits, PDFMetadata } from '@/components/pdf/types';
+import { getOverlayHeight, getPageLayout } from '@/components/pdf/types';
+import { applyPageOperation } from './pageOperations';
+
+export interface LocalExportOptions {
+  metadata?: PDFMetadata;
+  edits?: PDFEdits;
+  /** 1-based pages of the edited document to keep; all pages when omitted */
+  pages?: number[];
+  /** Page operations the server applied after `source` was read, replayed before the edits' own */
+  savedPageOperations?: PDFPageOperation[];
+}
+
+export interface LocalExportResult {
+  bytes: Uint8Array;
+  /** Edits that can only be applied by the server */
+  skipped: string[];
+}
+
+// US Letter, used for blank pages with no neighbour to copy the size from
+const DEFAULT_PAGE_SIZE: [number, number] = [612, 792];
+
+const parseColor = (color: string) => {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(color)?.[1] ?? '000000';
+  const value = parseInt(hex, 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+// A field set to an empty string was cleared by the user and is written empty, as the server does
+const applyMetadata = (pdf: PDFDocument, metadata: PDFMetadata) => {
+  if (metadata.title !== undefined) pdf.setTitle(metadata.title);
+  if (metadata.author !== undefined) pdf.setAuthor(metadata.author);
+  if (metadata.subject !== undefined) pdf.setSubject(metadata.subject);
+  if (metadata.keywords !== undefined) {
+    pdf.setKeywords(metadata.keywords.split(',').map(keyword => keyword.trim()).filter(Boolean));
+  }
+};
+
+// Shown in place of characters the standard font cannot encode
+const REPLACEMENT_CHARACTER = '?';
+
+/**
+ * Replace characters outside the font's character set, keeping line breaks for drawText
+ * @returns The drawable text and how many characters were replaced
+ */
+const toDrawableText = (text: string, characters: Set<number>) => {
+  let replaced = 0;
+  const drawable = Array.from(text, char => {
+    if (char === '\n' || char === '\r' || characters.has(char.codePointAt(0))) return char;
+    replaced++;
+    return REPLACEMENT_CHARACTER;
+  }).join('');
+  return { drawable, replaced };
+};
+
+const addRotation = (page: PDFPage, rotation: number) => {
+  if (rotation) {
+    page.setRotation(degrees((page.getRotation().angle + rotation) % 360));
+  }
+};
+
+/**
+ * Apply text overlays, metadata and page operations to a PDF in the browser.
+ * Text replacements need the server's content stream rewriting and are reported as skipped, as are
+ * overlay characters the standard Helvetica font cannot encode.
+ */
+export const buildEditedPdf = async (
+  source: ArrayBuffer,
+  { metadata = {}, edits = {}, pages, savedPageOperations = [] }: LocalExportOptions = {},
+): Promise<LocalExportResult> => {
+  const original = await PDFDocument.load(source, { ignoreEncryption: true });
+  const skipped: string[] = [];
+
+  if (edits.textReplacements?.length) {
+    skipped.push(`${edits.textReplacements.length} text replacement(s)`);
+  }
+
+  // The edits, overlays included, are numbered against the server's current file: the source bytes
+  // with the saved operations applied. Each page of the output records which of those pages it shows.
+  const savedLayout = savedPageOperations.reduce(applyPageOperation, getPageLayout(undefined, original.getPageCount()));
+  const editedLayout = (edits.pageOperations || [])
+    .reduce(applyPageOperation, getPageLayout(undefined, savedLayout.length));
+  const layout = editedLayout.map(entry => {
+    const saved = entry.sourcePage === null ? null : savedLayout[entry.sourcePage - 1];
+    return {
+      savedPage: entry.sourcePage,
+      sourcePage: saved?.sourcePage ?? null,
+      rotation: ((saved?.rotation || 0) + (entry.rotation || 0)) % 360,
+    };
+  });
+
+  let output = original;
+  if (savedPageOperations.length > 0 || edits.pageOperations?.length) {
+    output = await PDFDocument.create();
+    const sourceIndices = layout
+      .filter(entry => entry.sourcePage !== null)
+      .map(entry => entry.sourcePage - 1);
+    const copied = await output.copyPages(original, sourceIndices);
+
+    let copyIndex = 0;
+    let previousSize = DEFAULT_PAGE_SIZE;
+    for (const entry of layout) {
+      const page = entry.sourcePage === null
+        ? output.addPage(previousSize)
+        : output.addPage(copied[copyIndex++]);
+      const { width, height } = page.getSize();
+      previousSize = [width, height];
+      addRotation(page, entry.rotation);
+    }
+  }
+
+  // Drawn once the layout is built so every copy of a page gets its overlays, as in the viewer
+  const overlays = edits.textOverlays || [];
+  if (overlays.length > 0) {
+    const font = await output.embedFont(StandardFonts.Helvetica);
+    const characters = new Set(font.getCharacterSet());
+    const drawableTexts = overlays.map(overlay => toDrawableText(overlay.text, characters));
+
+    output.getPages().forEach((page, index) => {
+      const { savedPage } = layout[index];
+      overlays.forEach((overlay, overlayIndex) => {
+        if (overlay.page !== savedPage) return;
+
+        page.drawText(drawableTexts[overlayIndex].drawable, {
+          x: overlay.x,
+          // y is the top of the overlay box; drawText expects the first baseline
+          y: overlay.y - overlay.fontSize,
+          size: overlay.fontSize,
+          font,
+          color: parseColor(overlay.color),
+          lineHeight: getOverlayHeight(overlay),
+          maxWidth: overlay.width,
+        });
+      });
+    });
+
+    const replacedCharacters = drawableTexts.reduce((total, { replaced }) => total + replaced, 0);
+    if (replacedCharacters > 0) {
+      skipped.push(`${replacedCharacters} overlay character(s) outside the standard font`);
+    }
+  }
+
+  if (pages) {
+    const selection = await PDFDocument.create();
+    const copied = await selection.copyPages(output, pages.map(pageNumber => pageNumber - 1));
+    copied.forEach(page => selection.addPage(page));
+    output = selection;
+  }
+
+  applyMetadata(output, metadata);
+  output.setModificationDate(new Date());
+
+  return { bytes: await output.save(), skipped };
+};
@@ -0,0 +1,111 @@
+import { pdfjs } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { PDFMetadata, PDFOutlineItem } from '@/api/pdf';
+import { getAuthHeaders } from '@/api/client';
+import { getPageText } from './textSearch';
+
+// Set up PDF.js worker
+pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+
+export { pdfjs };
+
+/**
+ * Open a PDF with the same pdfjs instance react-pdf uses; server URLs are fetched with the access token
+ */
+export const loadPdfDocument = async (source: string | ArrayBuffer): Promise<PDFDocumentProxy> => {
+  const task = typeof source === 'string'
+    ? pdfjs.getDocument({ url: source, httpHeaders: getAuthHeaders(source) })
+    : pdfjs.getDocument({ data: new Uint8Array(source.slice(0)) });
+  return task.promise;
+};
+
+/**
+ * Read title/author/subject/keywords from the document Info dictionary
+ */
+export const readDocumentMetadata = async (pdf: PDFDocumentProxy): Promise<PDFMetadata> => {
+  const { info } = await pdf.getMetadata();
+  const dictionary = (info || {}) as Record<string, unknown>;
+  const read = (key: string) => (typeof dictionary[key] === 'string' ? (dictionary[key] as string) : '');
+
+  return {
+    title: read('Title'),
+    author: read('Author'),
+    subject: read('Subject'),
+    keywords: read('Keywords'),
+  };
+};
+
+/**
+ * Resolve an outline destination to a 1-based page number, or null if it points nowhere
+ */
+export const resolveDestinationPage = async (
+  pdf: PDFDocumentProxy,
+  dest: string | unknown[] | null,
+): Promise<number | null> => {
+  const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+  if (!explicit || explicit.length === 0) return null;
+
+  const target = explicit[0];
+  // Destinations reference pages either by object ref or by zero-based index
+  const index = typeof target === 'number'
+    ? target
+    : await pdf.getPageIndex(target as Parameters<PDFDocumentProxy['getPageIndex']>[0]);
+  return index + 1;
+};
+
+/**
+ * Read the top-level outline entries together with the page each one starts on
+ */
+export const readTopLevelOutline = async (
+  pdf: PDFDocumentProxy,
+): Promise<{ title: string; pageNumber: number }[]> => {
+  const outline = (await pdf.getOutline()) || [];
+  const entries = await Promise.all(outline.map(async item => ({
+    title: item.title,
+    pageNumber: await resolveDestinationPage(pdf, item.dest).catch(() => null),
+  })));
+  return entries.filter((entry): entry is { title: string; pageNumber: number } => entry.pageNumber !== null);
+};
+
+type PDFOutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+/**
+ * Read the full outline tree, resolving each bookmark to the page it points at
+ */
+export const readOutline = async (pdf: PDFDocumentProxy): Promise<PDFOutlineItem[]> => {
+  const readItems = (items: PDFOutlineNode[]): Promise<PDFOutlineItem[]> =>
+    Promise.all(items.map(async item => ({
+      title: item.title,
+      pageNumber: await resolveDestinationPage(pdf, item.dest).catch(() => null),
+      children: await readItems(item.items || []),
+    })));
+
+  return readItems((await pdf.getOutline()) || []);
+};
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the unrotated size of every page in points, e.g. to lay out pages before they render
+ */
+export const readPageSizes = async (pdf: PDFDocumentProxy): Promise<PageSize[]> =>
+  Promise.all(Array.from({ length: pdf.numPages }, async (_, index) => {
+    const page = await pdf.getPage(index + 1);
+    const { width, height } = page.getViewport({ scale: 1, rotation: 0 });
+    return { width, height };
+  }));
+
+/**
+ * Read the text of a page in content order, with line breaks where pdfjs reports them
+ */
+export const readPageText = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    return getPageText(await page.getTextContent()).text.trim();
+  } finally {
+    page.cleanup();
+  }
+};
@@ -0,0 +1,176 @@
+import { Zip, ZipPassThrough } from 'fflate';
+import { saveAs } from 'file-saver';
+import type { RasterWorkerRequest, RasterWorkerResponse } from './rasterize.worker';
+
+export type RasterFormat = 'png' | 'jpg';
+
+export interface RasterizeOptions {
+  /** 1-based pages to render; all pages when omitted */
+  pages?: number[];
+  dpi: number;
+  format: RasterFormat;
+  /** JPEG quality between 0 and 1 */
+  quality: number;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  /** Archive size after which the rest goes into a new archive; unlimited when not set */
+  partSize?: number;
+  /** Finish the current archive and start the next one */
+  nextPart?: () => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+// Without the File System Access API each archive is held in memory until it is saved,
+// so exports are split into archives of about this size
+const MEMORY_PART_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Open a destination for a ZIP archive. Where the File System Access API is available the
+ * archive streams straight to disk; otherwise it is downloaded as one or more archives of
+ * bounded size, each collected in memory only until it is complete.
+ * Must be called while handling a user gesture so the save picker may open.
+ */
+export const createZipSink = async (suggestedName: string): Promise<ZipSink> => {
+  // Not yet part of the DOM typings
+  const picker = (window as Window & {
+    showSaveFilePicker?: (options: unknown) => Promise<FileSystemFileHandle>;
+  }).showSaveFilePicker;
+  if (picker) {
+    const handle = await picker({
+      suggestedName,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+    });
+    const writable = await handle.createWritable();
+    return {
+      write: chunk => writable.write(chunk),
+      close: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  const baseName = suggestedName.replace(/\.zip$/i, '');
+  let parts: BlobPart[] = [];
+  let savedParts = 0;
+  const save = (name: string) => {
+    saveAs(new Blob(parts, { type: 'application/zip' }), name);
+    parts = [];
+  };
+  return {
+    write: async chunk => {
+      parts.push(chunk);
+    },
+    partSize: MEMORY_PART_SIZE,
+    nextPart: async () => {
+      save(`${baseName}_part${++savedParts}.zip`);
+    },
+    // A single archive keeps the suggested name
+    close: async () => save(savedParts > 0 ? `${baseName}_part${savedParts + 1}.zip` : suggestedName),
+    abort: async () => {
+      parts = [];
+    },
+  };
+};
+
+type RenderWorker = {
+  call: (message: RasterWorkerRequest, transfer?: Transferable[]) => Promise<RasterWorkerResponse>;
+  terminate: () => void;
+};
+
+// One request at a time is in flight, so each call simply waits for the next answer
+const startRenderWorker = (): RenderWorker => {
+  const worker = new Worker(new URL('./rasterize.worker.ts', import.meta.url), { type: 'module' });
+  return {
+    call: (message, transfer = []) =>
+      new Promise((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<RasterWorkerResponse>) =>
+          event.data.type === 'error' ? reject(new Error(event.data.message)) : resolve(event.data);
+        worker.onerror = event => {
+          event.preventDefault();
+          reject(new Error(event.message || 'Could not render the page'));
+        };
+        worker.postMessage(message, transfer);
+      }),
+    terminate: () => worker.terminate(),
+  };
+};
+
+/**
+ * Render pages to images one at a time in a worker and stream them into ZIP archives.
+ * The sink is left open on failure; the caller, which opened it, aborts it.
+ * @returns Number of archives written
+ */
+export const rasterizeToZip = async (
+  source: ArrayBuffer | Uint8Array,
+  sink: ZipSink,
+  { pages, dpi, format, quality, onProgress, signal }: RasterizeOptions,
+): Promise<number> => {
+  const data = source instanceof Uint8Array
+    ? source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength)
+    : source.slice(0);
+  const renderer = startRenderWorker();
+
+  // Chunks are written in order; awaiting the chain after each page keeps memory bounded
+  let writes = Promise.resolve();
+  let zipError: Error | null = null;
+  let partBytes = 0;
+  const createZip = () => new Zip((error, chunk) => {
+    if (error) {
+      zipError = error;
+      return;
+    }
+    partBytes += chunk.length;
+    writes = writes.then(() => sink.write(chunk));
+  });
+  const finishZip = async () => {
+    zip.end();
+    await writes;
+    if (zipError) throw zipError;
+  };
+  let zip = createZip();
+  let archives = 1;
+
+  try {
+    const opened = await renderer.call({ type: 'open', data: data as ArrayBuffer }, [data as ArrayBuffer]);
+    const numPages = opened.type === 'opened' ? opened.numPages : 0;
+    const pageNumbers = pages ?? Array.from({ length: numPages }, (_, i) => i + 1);
+    const digits = String(numPages).length;
+    const extension = format === 'png' ? 'png' : 'jpg';
+
+    for (const [index, pageNumber] of pageNumbers.entries()) {
+      signal?.throwIfAborted();
+
+      if (sink.partSize && partBytes >= sink.partSize) {
+        await finishZip();
+        await sink.nextPart?.();
+        zip = createZip();
+        partBytes = 0;
+        archives++;
+      }
+
+      const rendered = await renderer.call({ type: 'render', pageNumber, dpi, format, quality });
+      if (rendered.type !== 'rendered') continue;
+      // Images are already compressed, so entries are stored as-is
+      const entry = new ZipPassThrough(`page-${String(pageNumber).padStart(digits, '0')}.${extension}`);
+      zip.add(entry);
+      entry.push(rendered.image, true);
+
+      await writes;
+      if (zipError) throw zipError;
+      onProgress?.(index + 1, pageNumbers.length);
+    }
+
+    await finishZip();
+    await sink.close();
+    return archives;
+  } catch (error) {
+    zip.terminate();
+    throw error;
+  } finally {
+    renderer.terminate();
+  }
+};
@@ -0,0 +1,100 @@
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from 'pdfjs-dist';
+import type { RasterFormat } from './rasterize';
+
+// Renders PDF pages to PNG/JPEG with pdfjs and an OffscreenCanvas so large image exports do not
+// block the UI. Pages are rendered one per request, letting the caller write each image out before
+// asking for the next.
+
+export type RasterWorkerRequest =
+  | { type: 'open'; data: ArrayBuffer }
+  | { type: 'render'; pageNumber: number; dpi: number; format: RasterFormat; quality: number };
+
+export type RasterWorkerResponse =
+  | { type: 'opened'; numPages: number }
+  | { type: 'rendered'; pageNumber: number; image: Uint8Array }
+  | { type: 'error'; message: string };
+
+// Same parser worker the main thread uses; pdfjs starts it from inside this worker
+GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+
+// pdfjs creates its scratch canvases through this instead of the DOM
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// Workers have their own FontFaceSet; where it is missing, glyphs are drawn as paths instead
+const fonts = (self as unknown as { fonts?: FontFaceSet }).fonts;
+
+let pdf: PDFDocumentProxy | null = null;
+
+const open = async (data: ArrayBuffer) => {
+  await pdf?.destroy();
+  pdf = await getDocument({
+    data: new Uint8Array(data),
+    CanvasFactory: OffscreenCanvasFactory,
+    // Only the font set is used for rendering; pdfjs reads it from the owner document
+    ownerDocument: fonts ? ({ fonts } as unknown as Document) : undefined,
+    disableFontFace: !fonts,
+  }).promise;
+  return pdf.numPages;
+};
+
+const render = async (pageNumber: number, dpi: number, format: RasterFormat, quality: number) => {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: dpi / 72 });
+    const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+    await page.render({
+      canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+      viewport,
+      // JPEG has no transparency, so always paint a white page
+      background: 'white',
+    }).promise;
+    const blob = await canvas.convertToBlob({ type: format === 'png' ? 'image/png' : 'image/jpeg', quality });
+
+    // Release the pixel buffer right away; large documents would otherwise pile them up
+    canvas.width = 0;
+    canvas.height = 0;
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    page.cleanup();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<RasterWorkerRequest>) => {
+  const message = event.data;
+  try {
+    switch (message.type) {
+      case 'open': {
+        const response: RasterWorkerResponse = { type: 'opened', numPages: await open(message.data) };
+        self.postMessage(response);
+        break;
+      }
+      case 'render': {
+        const image = await render(message.pageNumber, message.dpi, message.format, message.quality);
+        const response: RasterWorkerResponse = { type: 'rendered', pageNumber: message.pageNumber, image };
+        self.postMessage(response, { transfer: [image.buffer] });
+        break;
+      }
+    }
+  } catch (error) {
+    const response: RasterWorkerResponse = { type: 'error', message: (error as Error).message };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,206 @@
+import type { PDFPageOperation } from '@/api/pdf';
+import type { PDFEdits, PDFMetadata } from '@/components/pdf/types';
+
+const DB_NAME = 'pdf-editor';
+const DB_VERSION = 2;
+const FILES_STORE = 'files';
+const STATE_STORE = 'state';
+const STATE_KEY = 'workspace';
+
+/** Total size of persisted files; documents beyond it are kept in memory only */
+export const MAX_SESSION_SIZE = 50 * 1024 * 1024; // 50MB
+/** Sessions older than this are discarded instead of offered for restore */
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface SessionDocumentState {
+  id: string;
+  fileId?: string;
+  metadata: PDFMetadata;
+  originalMetadata?: PDFMetadata;
+  edits: PDFEdits;
+  savedPageOperations?: PDFPageOperation[];
+  currentPage: number;
+  scale: number;
+}
+
+export interface SessionState {
+  documents: SessionDocumentState[];
+  activeId: string | null;
+  savedAt: number;
+}
+
+export interface StoredSessionDocument extends SessionDocumentState {
+  file: File;
+}
+
+export interface StoredSession {
+  documents: StoredSessionDocument[];
+  activeId: string | null;
+  savedAt: number;
+}
+
+interface StoredFile {
+  name: string;
+  type: string;
+  lastModified: number;
+  blob: Blob;
+}
+
+// Files written since the page loaded; never pruned by saveState, which may race a new upload
+const filesSavedThisVisit = new Set<string>();
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Version 1 kept a single document in one store
+      if (db.objectStoreNames.contains('session')) {
+        db.deleteObjectStore('session');
+      }
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE);
+      }
+      if (!db.objectStoreNames.contains(STATE_STORE)) {
+        db.createObjectStore(STATE_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => void,
+): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      run(transaction);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest | void,
+): Promise<T> => {
+  let request: IDBRequest | void;
+  await withTransaction([storeName], mode, transaction => {
+    request = run(transaction.objectStore(storeName));
+  });
+  return request ? request.result : undefined;
+};
+
+export const sessionStore = {
+  /**
+   * Persist the file bytes of a workspace document
+   * @returns false when storing it would exceed the size cap
+   */
+  saveFile: async (id: string, file: File): Promise<boolean> => {
+    const entry: StoredFile = {
+      name: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      blob: file,
+    };
+
+    // Size check and write share one transaction so concurrent uploads cannot all pass the cap
+    let stored = false;
+    await withStore(FILES_STORE, 'readwrite', store => {
+      const request = store.getAll();
+      request.onsuccess = () => {
+        const usedSize = (request.result as StoredFile[]).reduce((total, existing) => total + existing.blob.size, 0);
+        if (usedSize + file.size > MAX_SESSION_SIZE) return;
+        store.put(entry, id);
+        stored = true;
+        filesSavedThisVisit.add(id);
+      };
+    });
+    return stored;
+  },
+
+  /**
+   * Forget the file bytes of a closed document
+   */
+  removeFile: async (id: string): Promise<void> => {
+    filesSavedThisVisit.delete(id);
+    await withStore(FILES_STORE, 'readwrite', store => {
+      store.delete(id);
+    });
+  },
+
+  /**
+   * Persist edits, metadata and view state of every open document, dropping the files of
+   * documents no longer in it (e.g. those of a previous session that was not restored)
+   */
+  saveState: async (state: Omit<SessionState, 'savedAt'>): Promise<void> => {
+    const ids = new Set(state.documents.map(document => document.id));
+    await withTransaction([FILES_STORE, STATE_STORE], 'readwrite', transaction => {
+      transaction.objectStore(STATE_STORE).put({ ...state, savedAt: Date.now() }, STATE_KEY);
+
+      const files = transaction.objectStore(FILES_STORE);
+      const request = files.getAllKeys();
+      request.onsuccess = () => {
+        request.result
+          .filter(key => !ids.has(key as string) && !filesSavedThisVisit.has(key as string))
+          .forEach(key => files.delete(key));
+      };
+    });
+  },
+
+  /**
+   * Load the previous session, discarding it if it is stale or has no restorable documents
+   */
+  load: async (): Promise<StoredSession | null> => {
+    const state = await withStore<SessionState | undefined>(STATE_STORE, 'readonly', store => store.get(STATE_KEY));
+    if (!state || Date.now() - state.savedAt > SESSION_MAX_AGE) {
+      await sessionStore.clear();
+      return null;
+    }
+
+    const documents: StoredSessionDocument[] = [];
+    for (const document of state.documents) {
+      const stored = await withStore<StoredFile | undefined>(FILES_STORE, 'readonly', store => store.get(document.id));
+      // Documents over the size cap were never persisted and cannot be restored
+      if (stored) {
+        const file = new File([stored.blob], stored.name, {
+          type: stored.type,
+          lastModified: stored.lastModified,
+        });
+        documents.push({ ...document, file });
+      }
+    }
+
+    if (documents.length === 0) {
+      await sessionStore.clear();
+      return null;
+    }
+
+    const activeId = documents.some(document => document.id === state.activeId)
+      ? state.activeId
+      : documents[0].id;
+    return { documents, activeId, savedAt: state.savedAt };
+  },
+
+  /**
+   * Remove any persisted session
+   */
+  clear: async (): Promise<void> => {
+    filesSavedThisVisit.clear();
+    await withStore(FILES_STORE, 'readwrite', store => {
+      store.clear();
+    });
+    await withStore(STATE_STORE, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
@@ -0,0 +1,128 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export interface TextMatchOptions {
+  matchCase?: boolean;
+  wholeWord?: boolean;
+  /** Treat the query as a regular expression rather than literal text */
+  regex?: boolean;
+}
+
+/** Rectangle in PDF user space, origin bottom-left */
+export interface PDFRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextMatch {
+  page: number;
+  /** Offset of the match within the page text */
+  index: number;
+  text: string;
+  rects: PDFRect[];
+}
+
+export interface PageText {
+  text: string;
+  items: { item: TextItem; start: number }[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build a global RegExp for a query honouring the match options
+ * @throws SyntaxError when the query is not a valid regular expression
+ */
+export const buildMatcher = (query: string, options: TextMatchOptions = {}): RegExp | null => {
+  if (!query) return null;
+  const pattern = options.regex ? query : escapeRegExp(query);
+  const source = options.wholeWord ? `\\b(?:${pattern})\\b` : pattern;
+  return new RegExp(source, options.matchCase ? 'g' : 'gi');
+};
+
+/**
+ * Flatten pdfjs text items into one string, remembering where each item starts
+ */
+export const getPageText = (content: TextContent): PageText => {
+  let text = '';
+  const items: PageText['items'] = [];
+
+  content.items.forEach(entry => {
+    if (!('str' in entry)) return;
+    items.push({ item: entry, start: text.length });
+    text += entry.str;
+    if (entry.hasEOL) text += '\n';
+  });
+
+  return { text, items };
+};
+
+/**
+ * Approximate the rectangles covered by a character range, one per text item.
+ * Character widths are assumed uniform within an item.
+ */
+const getRangeRects = (pageText: PageText, start: number, end: number): PDFRect[] => {
+  const rects: PDFRect[] = [];
+
+  pageText.items.forEach(({ item, start: itemStart }) => {
+    const itemEnd = itemStart + item.str.length;
+    if (itemEnd <= start || itemStart >= end || item.str.length === 0) return;
+
+    const from = Math.max(start, itemStart) - itemStart;
+    const to = Math.min(end, itemEnd) - itemStart;
+    const charWidth = item.width / item.str.length;
+    const [, , , , e, f] = item.transform;
+    const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+
+    rects.push({
+      x: e + from * charWidth,
+      y: f,
+      width: (to - from) * charWidth,
+      height,
+    });
+  });
+
+  return rects;
+};
+
+/**
+ * Find all occurrences of a matcher in the extracted text of a page
+ */
+export const findTextMatches = (pageText: PageText, pageNumber: number, matcher: RegExp): TextMatch[] => {
+  const matches: TextMatch[] = [];
+
+  matcher.lastIndex = 0;
+  let result: RegExpExecArray | null;
+  while ((result = matcher.exec(pageText.text)) !== null) {
+    if (result[0].length === 0) {
+      matcher.lastIndex++;
+      continue;
+    }
+    matches.push({
+      page: pageNumber,
+      index: result.index,
+      text: result[0],
+      rects: getRangeRects(pageText, result.index, result.index + result[0].length),
+    });
+  }
+
+  return matches;
+};
+
+/**
+ * Find all occurrences of a matcher on a single page
+ */
+export const findPageMatches = async (
+  page: PDFPageProxy,
+  matcher: RegExp,
+): Promise<TextMatch[]> => findTextMatches(getPageText(await page.getTextContent()), page.pageNumber, matcher);
+
+/**
+ * Text around a match on one line, for listing search hits
+ */
+export const getMatchContext = (text: string, match: TextMatch, length = 40) => ({
+  before: text.slice(Math.max(0, match.index - length), match.index).replace(/\s+/g, ' ').trimStart(),
+  after: text.slice(match.index + match.text.length, match.index + match.text.length + length).replace(/\s+/g, ' ').trimEnd(),
+});
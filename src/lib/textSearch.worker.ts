@@ -0,0 +1,64 @@
+import { buildMatcher, findTextMatches, getMatchContext, type PageText, type TextMatch, type TextMatchOptions } from './textSearch';
+
+// Full-text search over page text extracted on the main thread; matching runs here so long
+// documents and expensive regular expressions do not block the UI
+
+export interface SearchHit extends TextMatch {
+  before: string;
+  after: string;
+}
+
+export type SearchWorkerRequest =
+  | { type: 'reset' }
+  | { type: 'add-page'; pageNumber: number; pageText: PageText }
+  | { type: 'search'; id: number; query: string; options: TextMatchOptions };
+
+export interface SearchWorkerResponse {
+  id: number;
+  hits: SearchHit[];
+  /** More matches exist than were returned */
+  truncated: boolean;
+  error?: string;
+}
+
+const MAX_HITS = 1000;
+
+const pages = new Map<number, PageText>();
+
+const search = (query: string, options: TextMatchOptions): Omit<SearchWorkerResponse, 'id'> => {
+  let matcher: RegExp | null;
+  try {
+    matcher = buildMatcher(query, options);
+  } catch (error) {
+    return { hits: [], truncated: false, error: (error as Error).message };
+  }
+  if (!matcher) return { hits: [], truncated: false };
+
+  const hits: SearchHit[] = [];
+  const pageNumbers = [...pages.keys()].sort((a, b) => a - b);
+  for (const pageNumber of pageNumbers) {
+    const pageText = pages.get(pageNumber);
+    for (const match of findTextMatches(pageText, pageNumber, matcher)) {
+      if (hits.length === MAX_HITS) return { hits, truncated: true };
+      hits.push({ ...match, ...getMatchContext(pageText.text, match) });
+    }
+  }
+  return { hits, truncated: false };
+};
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'reset':
+      pages.clear();
+      break;
+    case 'add-page':
+      pages.set(message.pageNumber, message.pageText);
+      break;
+    case 'search': {
+      const response: SearchWorkerResponse = { id: message.id, ...search(message.query, message.options) };
+      self.postMessage(response);
+      break;
+    }
+  }
+};
@@ -1,6 +1,13 @@
+import { Navigate } from "react-router-dom";
 import { PDFEditor } from "@/components/PDFEditor";
+import { useAuth } from "@/hooks/use-auth";
 
 const Index = () => {
+  const { isLoginRequired } = useAuth();
+
+  if (isLoginRequired) {
+    return <Navigate to="/login" replace />;
+  }
   return <PDFEditor />;
 };
 
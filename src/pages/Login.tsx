@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, LogIn } from "lucide-react";
+import { BackendSettings } from "@/components/pdf/BackendSettings";
+import { useAuth } from "@/hooks/use-auth";
+import { handleApiError } from "@/api/pdf";
+
+const Login = () => {
+  const navigate = useNavigate();
+  const { user, login } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (user) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await login({ email: email.trim(), password });
+      navigate("/", { replace: true });
+    } catch (err) {
+      const apiError = handleApiError(err);
+      setError(apiError.status === 401 ? "Incorrect email or password." : apiError.message);
+      console.error("Login error:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-accent p-6">
+      <Card className="w-full max-w-sm p-6 space-y-6 shadow-custom-lg border-0 bg-card/80 backdrop-blur-sm">
+        <div className="space-y-1 text-center">
+          <h1 className="text-2xl font-bold text-foreground">PDF Editor Pro</h1>
+          <p className="text-sm text-muted-foreground">Sign in to continue</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="login-email">Email</Label>
+            <Input
+              id="login-email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login-password">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <LogIn className="w-4 h-4 mr-2" />
+            )}
+            Sign In
+          </Button>
+        </form>
+
+        <div className="flex justify-center">
+          <BackendSettings />
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** PDF API used by the "Local" backend profile */
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_STAGING_URL?: string;
+  readonly VITE_API_PRODUCTION_URL?: string;
+  readonly VITE_AUTH_REQUIRED?: string;
+}